@@ -0,0 +1,136 @@
+(function () {
+  const SIZE = 4;
+
+  const gridEl = document.getElementById('grid');
+  const scoreEl = document.getElementById('score');
+  const bestEl = document.getElementById('best');
+  const message = document.getElementById('message');
+  const messageText = document.getElementById('message-text');
+  const continueBtn = document.getElementById('continue-btn');
+
+  const KEYS = {
+    ArrowUp: 'up', w: 'up',
+    ArrowDown: 'down', s: 'down',
+    ArrowLeft: 'left', a: 'left',
+    ArrowRight: 'right', d: 'right'
+  };
+
+  let board, score, won, over;
+  let best = window.tytBestScore.get('2048');
+  bestEl.textContent = best;
+
+  function newGame() {
+    board = Array.from({ length: SIZE }, () => Array(SIZE).fill(0));
+    score = 0;
+    won = false;
+    over = false;
+    message.classList.remove('visible');
+    addTile();
+    addTile();
+    render();
+  }
+
+  function addTile() {
+    const empty = [];
+    board.forEach((row, y) => row.forEach((value, x) => {
+      if (!value) empty.push({ x, y });
+    }));
+    if (!empty.length) return;
+    const cell = empty[Math.floor(Math.random() * empty.length)];
+    board[cell.y][cell.x] = Math.random() < 0.9 ? 2 : 4;
+  }
+
+  // Slides a single row to the left, merging each pair once
+  function slideRow(row) {
+    const values = row.filter(Boolean);
+    const result = [];
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] === values[i + 1]) {
+        const merged = values[i] * 2;
+        result.push(merged);
+        score += merged;
+        if (merged === 2048) won = true;
+        i++;
+      } else {
+        result.push(values[i]);
+      }
+    }
+    while (result.length < SIZE) result.push(0);
+    return result;
+  }
+
+  function rotate(grid) {
+    return grid[0].map((_, x) => grid.map(row => row[x]).reverse());
+  }
+
+  function move(direction) {
+    const turns = { left: 0, down: 1, right: 2, up: 3 }[direction];
+    let grid = board;
+    for (let i = 0; i < turns; i++) grid = rotate(grid);
+    grid = grid.map(slideRow);
+    for (let i = 0; i < (4 - turns) % 4; i++) grid = rotate(grid);
+
+    const changed = grid.some((row, y) => row.some((value, x) => value !== board[y][x]));
+    if (!changed) return;
+
+    const wasWon = won;
+    board = grid;
+    addTile();
+    render();
+
+    if (won && !wasWon) {
+      showMessage('You reached 2048!', true);
+    } else if (!canMove()) {
+      over = true;
+      showMessage('No more moves — ' + score, false);
+    }
+  }
+
+  function canMove() {
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 0; x < SIZE; x++) {
+        const value = board[y][x];
+        if (!value) return true;
+        if (x < SIZE - 1 && board[y][x + 1] === value) return true;
+        if (y < SIZE - 1 && board[y + 1][x] === value) return true;
+      }
+    }
+    return false;
+  }
+
+  function showMessage(text, canContinue) {
+    messageText.textContent = text;
+    continueBtn.style.display = canContinue ? '' : 'none';
+    message.classList.add('visible');
+  }
+
+  function render() {
+    scoreEl.textContent = score;
+    if (score > best) {
+      best = score;
+      bestEl.textContent = best;
+      window.tytBestScore.set('2048', best);
+    }
+
+    gridEl.innerHTML = '';
+    board.forEach(row => row.forEach(value => {
+      const tile = document.createElement('div');
+      tile.className = 'tile' + (value > 2048 ? ' big' : '');
+      tile.dataset.value = String(value);
+      tile.textContent = value ? String(value) : '';
+      gridEl.appendChild(tile);
+    }));
+  }
+
+  document.addEventListener('keydown', (e) => {
+    const direction = KEYS[e.key] || KEYS[e.key.toLowerCase()];
+    if (!direction || over || message.classList.contains('visible')) return;
+    e.preventDefault();
+    move(direction);
+  });
+
+  document.getElementById('new-btn').addEventListener('click', newGame);
+  continueBtn.addEventListener('click', () => message.classList.remove('visible'));
+
+  newGame();
+})();
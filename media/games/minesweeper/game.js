@@ -0,0 +1,127 @@
+(function () {
+  const gridEl = document.getElementById('grid');
+  const minesEl = document.getElementById('mines');
+  const timeEl = document.getElementById('time');
+  const difficulty = document.getElementById('difficulty');
+  const message = document.getElementById('message');
+  const messageText = document.getElementById('message-text');
+
+  let cols, rows, mineCount, cells, placed, finished, flags, opened, timer, seconds;
+
+  function newGame() {
+    [cols, rows, mineCount] = difficulty.value.split(',').map(Number);
+    cells = [];
+    placed = false;
+    finished = false;
+    flags = 0;
+    opened = 0;
+    seconds = 0;
+    clearInterval(timer);
+    timeEl.textContent = '0';
+    minesEl.textContent = mineCount;
+    message.classList.remove('visible');
+
+    gridEl.innerHTML = '';
+    gridEl.style.gridTemplateColumns = 'repeat(' + cols + ', 28px)';
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const el = document.createElement('div');
+        el.className = 'cell';
+        const cell = { x, y, el, mine: false, open: false, flagged: false, count: 0 };
+        el.addEventListener('click', () => reveal(cell));
+        el.addEventListener('contextmenu', (e) => {
+          e.preventDefault();
+          toggleFlag(cell);
+        });
+        cells.push(cell);
+        gridEl.appendChild(el);
+      }
+    }
+  }
+
+  function neighbours(cell) {
+    const result = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const x = cell.x + dx;
+        const y = cell.y + dy;
+        if ((dx || dy) && x >= 0 && y >= 0 && x < cols && y < rows) {
+          result.push(cells[y * cols + x]);
+        }
+      }
+    }
+    return result;
+  }
+
+  // Mines are placed on the first click so it never hits one
+  function placeMines(safe) {
+    const forbidden = new Set([safe, ...neighbours(safe)]);
+    const candidates = cells.filter(cell => !forbidden.has(cell));
+    for (let i = 0; i < mineCount && candidates.length; i++) {
+      const index = Math.floor(Math.random() * candidates.length);
+      candidates.splice(index, 1)[0].mine = true;
+    }
+    cells.forEach(cell => {
+      cell.count = neighbours(cell).filter(n => n.mine).length;
+    });
+    placed = true;
+    timer = setInterval(() => {
+      seconds++;
+      timeEl.textContent = seconds;
+    }, 1000);
+  }
+
+  function reveal(cell) {
+    if (finished || cell.open || cell.flagged) return;
+    if (!placed) placeMines(cell);
+
+    if (cell.mine) {
+      cell.el.classList.add('mine');
+      endGame(false);
+      return;
+    }
+
+    const queue = [cell];
+    while (queue.length) {
+      const current = queue.shift();
+      if (current.open || current.flagged) continue;
+      current.open = true;
+      opened++;
+      current.el.classList.add('open');
+      if (current.count) {
+        current.el.textContent = current.count;
+        current.el.dataset.count = String(current.count);
+      } else {
+        queue.push(...neighbours(current).filter(n => !n.open && !n.mine));
+      }
+    }
+
+    if (opened === cols * rows - mineCount) {
+      endGame(true);
+    }
+  }
+
+  function toggleFlag(cell) {
+    if (finished || cell.open) return;
+    cell.flagged = !cell.flagged;
+    flags += cell.flagged ? 1 : -1;
+    cell.el.textContent = cell.flagged ? '🚩' : '';
+    minesEl.textContent = mineCount - flags;
+  }
+
+  function endGame(won) {
+    finished = true;
+    clearInterval(timer);
+    cells.forEach(cell => {
+      if (cell.mine && !cell.flagged) cell.el.textContent = '💣';
+    });
+    messageText.textContent = won ? 'Cleared in ' + seconds + 's!' : 'Boom!';
+    message.classList.add('visible');
+  }
+
+  document.getElementById('new-btn').addEventListener('click', newGame);
+  document.getElementById('again-btn').addEventListener('click', newGame);
+  difficulty.addEventListener('change', newGame);
+
+  newGame();
+})();
@@ -0,0 +1,131 @@
+(function () {
+  const GRID = 20;
+  const CELL = 20;
+  const TICK_MS = 110;
+
+  const canvas = document.getElementById('canvas');
+  const ctx = canvas.getContext('2d');
+  const scoreEl = document.getElementById('score');
+  const bestEl = document.getElementById('best');
+  const message = document.getElementById('message');
+  const messageText = document.getElementById('message-text');
+  const startBtn = document.getElementById('start-btn');
+
+  const DIRECTIONS = {
+    ArrowUp: { x: 0, y: -1 }, w: { x: 0, y: -1 },
+    ArrowDown: { x: 0, y: 1 }, s: { x: 0, y: 1 },
+    ArrowLeft: { x: -1, y: 0 }, a: { x: -1, y: 0 },
+    ArrowRight: { x: 1, y: 0 }, d: { x: 1, y: 0 }
+  };
+
+  let snake, direction, queued, food, score, timer, running;
+  let best = window.tytBestScore.get('snake');
+  bestEl.textContent = best;
+
+  function reset() {
+    snake = [{ x: 10, y: 10 }, { x: 9, y: 10 }, { x: 8, y: 10 }];
+    direction = { x: 1, y: 0 };
+    queued = direction;
+    score = 0;
+    scoreEl.textContent = score;
+    placeFood();
+  }
+
+  function placeFood() {
+    do {
+      food = { x: Math.floor(Math.random() * GRID), y: Math.floor(Math.random() * GRID) };
+    } while (snake.some(part => part.x === food.x && part.y === food.y));
+  }
+
+  function start() {
+    reset();
+    message.classList.remove('visible');
+    running = true;
+    clearInterval(timer);
+    timer = setInterval(step, TICK_MS);
+    draw();
+  }
+
+  function togglePause() {
+    if (!snake || message.classList.contains('visible') && messageText.textContent !== 'Paused') {
+      return;
+    }
+    running = !running;
+    messageText.textContent = 'Paused';
+    startBtn.style.display = running ? '' : 'none';
+    message.classList.toggle('visible', !running);
+  }
+
+  function gameOver() {
+    running = false;
+    clearInterval(timer);
+    if (score > best) {
+      best = score;
+      bestEl.textContent = best;
+      window.tytBestScore.set('snake', best);
+    }
+    messageText.textContent = 'Game over — ' + score;
+    startBtn.textContent = 'Play again';
+    startBtn.style.display = '';
+    message.classList.add('visible');
+  }
+
+  function step() {
+    if (!running) return;
+    direction = queued;
+    const head = { x: snake[0].x + direction.x, y: snake[0].y + direction.y };
+
+    const hitWall = head.x < 0 || head.y < 0 || head.x >= GRID || head.y >= GRID;
+    const hitSelf = snake.some(part => part.x === head.x && part.y === head.y);
+    if (hitWall || hitSelf) {
+      gameOver();
+      return;
+    }
+
+    snake.unshift(head);
+    if (head.x === food.x && head.y === food.y) {
+      score++;
+      scoreEl.textContent = score;
+      placeFood();
+    } else {
+      snake.pop();
+    }
+    draw();
+  }
+
+  function draw() {
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.fillStyle = '#f14c4c';
+    ctx.fillRect(food.x * CELL + 3, food.y * CELL + 3, CELL - 6, CELL - 6);
+
+    snake.forEach((part, index) => {
+      ctx.fillStyle = index === 0 ? '#89d185' : '#4ec24a';
+      ctx.fillRect(part.x * CELL + 1, part.y * CELL + 1, CELL - 2, CELL - 2);
+    });
+  }
+
+  document.addEventListener('keydown', (e) => {
+    if (e.key === ' ') {
+      e.preventDefault();
+      togglePause();
+      return;
+    }
+    const next = DIRECTIONS[e.key] || DIRECTIONS[e.key.toLowerCase()];
+    if (!next) return;
+    e.preventDefault();
+    // Disallow reversing into yourself
+    if (next.x !== -direction.x || next.y !== -direction.y) {
+      queued = next;
+    }
+  });
+
+  startBtn.addEventListener('click', () => {
+    if (messageText.textContent === 'Paused') {
+      togglePause();
+    } else {
+      start();
+    }
+  });
+})();
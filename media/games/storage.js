@@ -0,0 +1,17 @@
+// Best-score storage shared by the bundled games; storage can be unavailable inside webviews
+window.tytBestScore = {
+  get(key) {
+    try {
+      return Number(localStorage.getItem('tyt-best-' + key)) || 0;
+    } catch {
+      return 0;
+    }
+  },
+  set(key, value) {
+    try {
+      localStorage.setItem('tyt-best-' + key, String(value));
+    } catch {
+      // Ignore, best score simply won't persist
+    }
+  }
+};
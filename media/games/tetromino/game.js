@@ -0,0 +1,223 @@
+(function () {
+  const COLS = 10;
+  const ROWS = 20;
+  const CELL = 24;
+  const LINE_SCORES = [0, 100, 300, 500, 800];
+
+  const PIECES = [
+    { color: '#4fc1ff', shape: [[1, 1, 1, 1]] },
+    { color: '#ffd700', shape: [[1, 1], [1, 1]] },
+    { color: '#c586c0', shape: [[0, 1, 0], [1, 1, 1]] },
+    { color: '#89d185', shape: [[0, 1, 1], [1, 1, 0]] },
+    { color: '#f14c4c', shape: [[1, 1, 0], [0, 1, 1]] },
+    { color: '#3794ff', shape: [[1, 0, 0], [1, 1, 1]] },
+    { color: '#ce9178', shape: [[0, 0, 1], [1, 1, 1]] }
+  ];
+
+  const canvas = document.getElementById('canvas');
+  const ctx = canvas.getContext('2d');
+  const nextCtx = document.getElementById('next').getContext('2d');
+  const scoreEl = document.getElementById('score');
+  const linesEl = document.getElementById('lines');
+  const levelEl = document.getElementById('level');
+  const bestEl = document.getElementById('best');
+  const message = document.getElementById('message');
+  const messageText = document.getElementById('message-text');
+  const startBtn = document.getElementById('start-btn');
+
+  let grid, piece, next, score, lines, level, dropTimer, lastTime, running, paused;
+  let best = window.tytBestScore.get('tetromino');
+  bestEl.textContent = best;
+
+  function randomPiece() {
+    const template = PIECES[Math.floor(Math.random() * PIECES.length)];
+    const shape = template.shape.map(row => row.slice());
+    return { color: template.color, shape, x: Math.floor((COLS - shape[0].length) / 2), y: 0 };
+  }
+
+  function collides(shape, offsetX, offsetY) {
+    return shape.some((row, y) => row.some((filled, x) => {
+      if (!filled) return false;
+      const gx = offsetX + x;
+      const gy = offsetY + y;
+      return gx < 0 || gx >= COLS || gy >= ROWS || (gy >= 0 && grid[gy][gx]);
+    }));
+  }
+
+  function rotate(shape) {
+    return shape[0].map((_, x) => shape.map(row => row[x]).reverse());
+  }
+
+  function start() {
+    grid = Array.from({ length: ROWS }, () => Array(COLS).fill(null));
+    score = 0;
+    lines = 0;
+    level = 1;
+    piece = randomPiece();
+    next = randomPiece();
+    running = true;
+    paused = false;
+    dropTimer = 0;
+    lastTime = performance.now();
+    message.classList.remove('visible');
+    updateHud();
+    requestAnimationFrame(loop);
+  }
+
+  function lockPiece() {
+    piece.shape.forEach((row, y) => row.forEach((filled, x) => {
+      if (filled && piece.y + y >= 0) {
+        grid[piece.y + y][piece.x + x] = piece.color;
+      }
+    }));
+
+    let cleared = 0;
+    for (let y = ROWS - 1; y >= 0; y--) {
+      if (grid[y].every(Boolean)) {
+        grid.splice(y, 1);
+        grid.unshift(Array(COLS).fill(null));
+        cleared++;
+        y++;
+      }
+    }
+
+    if (cleared) {
+      lines += cleared;
+      score += LINE_SCORES[cleared] * level;
+      level = Math.floor(lines / 10) + 1;
+    }
+
+    piece = next;
+    next = randomPiece();
+    if (collides(piece.shape, piece.x, piece.y)) {
+      gameOver();
+    }
+    updateHud();
+  }
+
+  function gameOver() {
+    running = false;
+    if (score > best) {
+      best = score;
+      window.tytBestScore.set('tetromino', best);
+    }
+    messageText.textContent = 'Game over — ' + score;
+    startBtn.textContent = 'Play again';
+    message.classList.add('visible');
+  }
+
+  function drop() {
+    if (!collides(piece.shape, piece.x, piece.y + 1)) {
+      piece.y++;
+      return true;
+    }
+    lockPiece();
+    return false;
+  }
+
+  function loop(time) {
+    if (!running) return;
+    const delta = time - lastTime;
+    lastTime = time;
+
+    if (!paused) {
+      dropTimer += delta;
+      const interval = Math.max(100, 800 - (level - 1) * 70);
+      if (dropTimer >= interval) {
+        dropTimer = 0;
+        drop();
+      }
+    }
+
+    draw();
+    requestAnimationFrame(loop);
+  }
+
+  function drawCell(context, x, y, color, size) {
+    context.fillStyle = color;
+    context.fillRect(x * size + 1, y * size + 1, size - 2, size - 2);
+  }
+
+  function draw() {
+    ctx.fillStyle = '#111';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    grid.forEach((row, y) => row.forEach((color, x) => {
+      if (color) drawCell(ctx, x, y, color, CELL);
+    }));
+
+    // Ghost piece showing where a hard drop would land
+    let ghostY = piece.y;
+    while (!collides(piece.shape, piece.x, ghostY + 1)) ghostY++;
+    piece.shape.forEach((row, y) => row.forEach((filled, x) => {
+      if (filled) drawCell(ctx, piece.x + x, ghostY + y, 'rgba(255, 255, 255, 0.12)', CELL);
+    }));
+
+    piece.shape.forEach((row, y) => row.forEach((filled, x) => {
+      if (filled) drawCell(ctx, piece.x + x, piece.y + y, piece.color, CELL);
+    }));
+
+    nextCtx.fillStyle = '#111';
+    nextCtx.fillRect(0, 0, 96, 96);
+    next.shape.forEach((row, y) => row.forEach((filled, x) => {
+      if (filled) drawCell(nextCtx, x + 1, y + 1, next.color, 20);
+    }));
+
+    if (paused) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Paused', canvas.width / 2, canvas.height / 2);
+    }
+  }
+
+  function updateHud() {
+    scoreEl.textContent = score;
+    linesEl.textContent = lines;
+    levelEl.textContent = level;
+    bestEl.textContent = Math.max(best, score);
+  }
+
+  document.addEventListener('keydown', (e) => {
+    if (!running) return;
+    if (e.key === 'p' || e.key === 'P') {
+      paused = !paused;
+      return;
+    }
+    if (paused) return;
+
+    switch (e.key) {
+      case 'ArrowLeft':
+        if (!collides(piece.shape, piece.x - 1, piece.y)) piece.x--;
+        break;
+      case 'ArrowRight':
+        if (!collides(piece.shape, piece.x + 1, piece.y)) piece.x++;
+        break;
+      case 'ArrowDown':
+        if (drop()) score += 1;
+        updateHud();
+        break;
+      case 'ArrowUp': {
+        const rotated = rotate(piece.shape);
+        // Simple wall kicks: try in place, then one cell either side
+        const kick = [0, -1, 1, -2, 2].find(offset => !collides(rotated, piece.x + offset, piece.y));
+        if (kick !== undefined) {
+          piece.shape = rotated;
+          piece.x += kick;
+        }
+        break;
+      }
+      case ' ':
+        while (drop()) score += 2;
+        updateHud();
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  });
+
+  startBtn.addEventListener('click', start);
+})();
@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { WaitTracker } from '../waits/WaitTracker';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { JobResult, WaitSession, WaitStateChangeEvent } from '../types';
+
+/**
+ * Public API returned from `activate()`, for extensions that want to report their own waits:
+ *
+ * ```ts
+ * const tyt = vscode.extensions.getExtension<TakeYourTimeApi>('DanielShalom.take-your-time');
+ * const api = await tyt?.activate();
+ * const id = api?.beginWait('Agent run', { estimatedMs: 120000 });
+ * // ...
+ * api?.endWait(id, 'success');
+ * ```
+ *
+ * Invalid arguments throw a `CommandError` (code `COMMAND_ERROR`) naming the matching command.
+ */
+export interface TakeYourTimeApi {
+    readonly version: 1;
+
+    /**
+     * Starts a wait and offers the user a game
+     * @returns The id to pass to `endWait`
+     */
+    beginWait(label: string, options?: { estimatedMs?: number; openGame?: 'off' | 'prompt' | 'auto' }): string;
+
+    /**
+     * Ends a wait and tells open game panels that the job is done
+     */
+    endWait(id: string, result?: JobResult, detail?: string): void;
+
+    /**
+     * Gets all waits that have not ended yet
+     */
+    getActiveWaits(): readonly WaitSession[];
+
+    readonly onDidChangeWaitState: vscode.Event<WaitStateChangeEvent>;
+}
+
+export function createApi(waitTracker: WaitTracker, errorLog: ErrorLog): TakeYourTimeApi {
+    // Callers only see the thrown error, so keep a record on our side too
+    const logged = <T>(operation: string, run: () => T): T => {
+        try {
+            return run();
+        } catch (error) {
+            errorLog.record(error, { apiCall: operation });
+            throw error;
+        }
+    };
+
+    return {
+        version: 1,
+        beginWait: (label, options) => logged('beginWait', () =>
+            waitTracker.begin(label, { ...options, source: 'api' }).id
+        ),
+        endWait: (id, result, detail): void => logged('endWait', () => {
+            waitTracker.end(id, { result, detail });
+        }),
+        getActiveWaits: () => waitTracker.getActiveWaits(),
+        onDidChangeWaitState: waitTracker.onDidChangeWaitState
+    };
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+
+export type BreakTimerState = 'idle' | 'running' | 'warning' | 'expired';
+
+export interface BreakTimerStatus {
+    state: BreakTimerState;
+    /** Time left until the break ends, while running or warning */
+    remainingMs?: number;
+}
+
+/**
+ * Counts down the break budget for the game panels. The timer lives in the extension host,
+ * so reloading or switching games doesn't reset it.
+ */
+export class BreakTimer implements vscode.Disposable {
+    static readonly EXTENSION_MS = 5 * 60 * 1000;
+
+    private state: BreakTimerState = 'idle';
+    private endsAt: number | undefined;
+    private warningTimer: ReturnType<typeof setTimeout> | undefined;
+    private expiryTimer: ReturnType<typeof setTimeout> | undefined;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<BreakTimerStatus>();
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private readonly config: ExtensionConfig) { }
+
+    public getStatus(): BreakTimerStatus {
+        if ((this.state === 'running' || this.state === 'warning') && this.endsAt !== undefined) {
+            return { state: this.state, remainingMs: Math.max(0, this.endsAt - Date.now()) };
+        }
+        return { state: this.state };
+    }
+
+    /**
+     * Starts a break if none is running and the timer is enabled
+     */
+    public start(): void {
+        const lengthMs = this.config.getBreakTimerMs();
+        if (this.state !== 'idle' || lengthMs === 0) {
+            return;
+        }
+        this.schedule(Date.now() + lengthMs);
+    }
+
+    /**
+     * Gives an expiring or expired break more time
+     */
+    public extend(ms: number = BreakTimer.EXTENSION_MS): void {
+        if (this.state === 'idle') {
+            return;
+        }
+        this.schedule(Date.now() + ms);
+    }
+
+    /**
+     * Ends the break; the next game starts a new one
+     */
+    public stop(): void {
+        if (this.state === 'idle') {
+            return;
+        }
+        this.clearTimers();
+        this.endsAt = undefined;
+        this.setState('idle');
+    }
+
+    /**
+     * Stops the countdown and returns where it was, to carry on later with `resume`
+     */
+    public pause(): BreakTimerStatus {
+        const status = this.getStatus();
+        this.stop();
+        return status;
+    }
+
+    /**
+     * Carries on with a countdown saved by `pause`
+     */
+    public resume(status: BreakTimerStatus): void {
+        if (status.state === 'expired') {
+            this.clearTimers();
+            this.endsAt = undefined;
+            this.setState('expired');
+        } else if (status.state !== 'idle' && status.remainingMs !== undefined) {
+            this.schedule(Date.now() + status.remainingMs);
+        }
+    }
+
+    /**
+     * Applies changed settings: turning the timer off ends the current break
+     */
+    public reload(): void {
+        if (this.config.getBreakTimerMs() === 0) {
+            this.stop();
+        }
+    }
+
+    private schedule(endsAt: number): void {
+        this.clearTimers();
+        this.endsAt = endsAt;
+
+        const remainingMs = endsAt - Date.now();
+        const warningMs = this.config.getBreakWarningMs();
+        if (warningMs > 0 && remainingMs > warningMs) {
+            this.warningTimer = setTimeout(() => this.setState('warning'), remainingMs - warningMs);
+        }
+        this.expiryTimer = setTimeout(() => {
+            this.endsAt = undefined;
+            this.setState('expired');
+        }, remainingMs);
+
+        this.setState(warningMs > 0 && remainingMs <= warningMs ? 'warning' : 'running');
+    }
+
+    private setState(state: BreakTimerState): void {
+        this.state = state;
+        this.onDidChangeEmitter.fire(this.getStatus());
+    }
+
+    private clearTimers(): void {
+        clearTimeout(this.warningTimer);
+        clearTimeout(this.expiryTimer);
+        this.warningTimer = undefined;
+        this.expiryTimer = undefined;
+    }
+
+    public dispose(): void {
+        this.clearTimers();
+        this.onDidChangeEmitter.dispose();
+    }
+}
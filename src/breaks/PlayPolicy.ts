@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { GameLibrary } from '../games/GameLibrary';
+import { isInTimeWindow, parseTimeWindow } from '../utils/schedule';
+import { formatDuration } from '../utils/format';
+
+/**
+ * Why games can't be played right now
+ */
+export interface PlayDenial {
+    kind: 'quota' | 'schedule';
+    title: string;
+    message: string;
+}
+
+/**
+ * Applies the `takeYourTime.limits.*` settings: a daily play quota and the times games are allowed
+ */
+export class PlayPolicy implements vscode.Disposable {
+    private static readonly CHECK_INTERVAL_MS = 30 * 1000;
+
+    private waiting = false;
+    private lastDenialKind: PlayDenial['kind'] | undefined;
+    private readonly interval: ReturnType<typeof setInterval>;
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fires when games become blocked or allowed again
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(
+        private readonly config: ExtensionConfig,
+        private readonly gameLibrary: GameLibrary
+    ) {
+        this.interval = setInterval(() => this.reevaluate(), PlayPolicy.CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Tells the policy whether a task or command is being waited on
+     */
+    public setWaiting(waiting: boolean): void {
+        if (this.waiting !== waiting) {
+            this.waiting = waiting;
+            this.reevaluate();
+        }
+    }
+
+    /**
+     * Checks whether games may be played now
+     * @returns Why not, or undefined when they may
+     * @throws ConfigurationError if the allowed hours are malformed
+     */
+    public check(now: Date = new Date()): PlayDenial | undefined {
+        const quotaMs = this.config.getDailyQuotaMs();
+        if (quotaMs > 0) {
+            const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+            if (this.gameLibrary.getPlayedMsSince(midnight, now.getTime()) >= quotaMs) {
+                return {
+                    kind: 'quota',
+                    title: 'Daily quota reached',
+                    message: `You've played your ${formatDuration(quotaMs)} for today. See you tomorrow!`
+                };
+            }
+        }
+
+        const allowedHours = this.config.getAllowedHours();
+        const onlyWhileWaiting = this.config.isOnlyWhileWaiting();
+        if (allowedHours.length === 0 && !onlyWhileWaiting) {
+            return undefined;
+        }
+
+        const inWindow = allowedHours.some(window => isInTimeWindow(parseTimeWindow(window), now));
+        if (inWindow || (onlyWhileWaiting && this.waiting)) {
+            return undefined;
+        }
+
+        const conditions = [
+            ...(allowedHours.length > 0 ? [`between ${allowedHours.join(', ')}`] : []),
+            ...(onlyWhileWaiting ? ['while a task or command is running'] : [])
+        ];
+        return {
+            kind: 'schedule',
+            title: 'Not play time',
+            message: `Games are available ${conditions.join(' or ')}.`
+        };
+    }
+
+    /**
+     * Re-checks the policy and fires `onDidChange` if the outcome changed
+     */
+    public reevaluate(): void {
+        let kind: PlayDenial['kind'] | undefined;
+        try {
+            kind = this.check()?.kind;
+        } catch {
+            // Reported when the settings were loaded
+            kind = undefined;
+        }
+
+        if (kind !== this.lastDenialKind) {
+            this.lastDenialKind = kind;
+            this.onDidChangeEmitter.fire();
+        }
+    }
+
+    public dispose(): void {
+        clearInterval(this.interval);
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -1,18 +1,44 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
 import { TYTWebviewManager } from '../webview/WebviewManager';
+import { WaitTracker } from '../waits/WaitTracker';
+import { ExtensionConfig, GamePreset, GamePresetSchema } from '../config/ExtensionConfig';
+import { PresetPacks } from '../config/PresetPacks';
+import { PresetDiagnostics } from '../diagnostics/PresetDiagnostics';
+import { DiagnosticsExporter } from '../diagnostics/DiagnosticsExporter';
+import { GameLibrary } from '../games/GameLibrary';
+import { StatsPanel } from '../stats/StatsPanel';
 import { CommandError } from '../errors/CommandError';
+import { ConfigurationError } from '../errors/ConfigurationError';
+import { ExtensionError } from '../errors/ExtensionError';
+import { JobResult } from '../types';
 
 export class CommandHandler {
-    constructor(private readonly webviewManager: TYTWebviewManager) { }
+    constructor(
+        private readonly webviewManager: TYTWebviewManager,
+        private readonly waitTracker: WaitTracker,
+        private readonly config: ExtensionConfig,
+        private readonly presetDiagnostics: PresetDiagnostics,
+        private readonly diagnosticsExporter: DiagnosticsExporter,
+        private readonly gameLibrary: GameLibrary,
+        private readonly statsPanel: StatsPanel
+    ) { }
 
     /**
      * Handles the open game command
+     * @param gameUrl The game to open instead of the configured default
      */
-    async handleOpenGame(): Promise<void> {
+    async handleOpenGame(gameUrl?: string): Promise<void> {
+        const playDenial = this.webviewManager.getPlayDenial();
+        if (playDenial) {
+            vscode.window.showWarningMessage(`Take Your Time: ${playDenial.title}. ${playDenial.message}`);
+            return;
+        }
+
         try {
             vscode.window.showInformationMessage('Opening Take Your Time game...');
-            const panel = this.webviewManager.createGamePanel();
-            panel.reveal();
+            this.webviewManager.openGamePanel(gameUrl);
         } catch (error) {
             const commandError = new CommandError(
                 'Failed to open game panel',
@@ -27,4 +53,586 @@ export class CommandHandler {
             throw commandError;
         }
     }
+
+    /**
+     * Handles the open game with command: picks a game, then opens it in a new panel
+     */
+    async handleOpenGameWith(): Promise<void> {
+        let preset: GamePreset | undefined;
+        try {
+            preset = await this.pickGame('Open Game', 'Choose a game to open');
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to list the games.');
+            throw this.toCommandError(error, 'Failed to pick a game to open', 'takeYourTime.openGameWith');
+        }
+
+        // Opening reports its own failures
+        if (preset) {
+            await this.handleOpenGame(preset.url);
+        }
+    }
+
+    /**
+     * Handles the add preset command
+     */
+    async handleAddPreset(): Promise<void> {
+        try {
+            const name = await vscode.window.showInputBox({
+                title: 'Add Game (1/3)',
+                prompt: 'Name shown in the game list',
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            });
+            if (name === undefined) {
+                return;
+            }
+
+            const url = await vscode.window.showInputBox({
+                title: 'Add Game (2/3)',
+                prompt: 'URL of the game site, or builtin:<game> for a bundled offline game',
+                placeHolder: 'https://',
+                validateInput: value => this.validateNewPresetUrl(value.trim())
+            });
+            if (url === undefined) {
+                return;
+            }
+
+            const embedChoice = await vscode.window.showQuickPick(
+                [
+                    { label: 'Play inside VS Code', embed: 'iframe' as const },
+                    { label: 'Open in the browser', description: 'For sites that refuse embedding', embed: 'external' as const }
+                ],
+                { title: 'Add Game (3/3)', placeHolder: 'How should the game be shown?' }
+            );
+            if (!embedChoice) {
+                return;
+            }
+
+            const target = await this.pickSettingsTarget();
+            if (target === undefined) {
+                return;
+            }
+
+            const result = GamePresetSchema.safeParse({ name: name.trim(), url: url.trim(), embed: embedChoice.embed });
+            if (!result.success) {
+                throw new ConfigurationError('Invalid game preset', { issues: result.error.issues });
+            }
+
+            const preset = result.data;
+            await this.config.updateGamePresets(games => [...games, preset], target);
+            vscode.window.showInformationMessage(`Take Your Time: Added "${preset.name}" to the game list.`);
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to add the game.');
+            throw this.toCommandError(error, 'Failed to add preset', 'takeYourTime.addPreset');
+        }
+    }
+
+    /**
+     * Handles the remove preset command
+     */
+    async handleRemovePreset(): Promise<void> {
+        try {
+            const selection = await vscode.window.showQuickPick(
+                this.config.getConfiguredGamePresets().map(preset => ({
+                    label: preset.name,
+                    description: preset.url,
+                    url: preset.url
+                })),
+                { title: 'Remove Game', placeHolder: 'Choose a game to remove from the list' }
+            );
+            if (!selection) {
+                return;
+            }
+
+            await this.config.updateGamePresets(games => games.filter(game => game.url !== selection.url));
+            vscode.window.showInformationMessage(`Take Your Time: Removed "${selection.label}" from the game list.`);
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to remove the game.');
+            throw this.toCommandError(error, 'Failed to remove preset', 'takeYourTime.removePreset');
+        }
+    }
+
+    /**
+     * Handles the set default game command
+     */
+    async handleSetDefaultGame(): Promise<void> {
+        try {
+            const preset = await this.pickGame('Set Default Game', 'Choose the game new panels open with');
+            if (!preset) {
+                return;
+            }
+
+            await this.config.setDefaultGameUrl(preset.url);
+            vscode.window.showInformationMessage(`Take Your Time: New panels now open "${preset.name}".`);
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to set the default game.');
+            throw this.toCommandError(error, 'Failed to set default game', 'takeYourTime.setDefaultGame');
+        }
+    }
+
+    /**
+     * Handles the panic command: hides every game and hands focus back to the editor
+     */
+    async handlePanic(): Promise<void> {
+        try {
+            if (this.webviewManager.hideAll()) {
+                await vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup');
+            }
+        } catch (error) {
+            throw this.toCommandError(error, 'Failed to hide games', 'takeYourTime.panic');
+        }
+    }
+
+    /**
+     * Handles the resume command: brings back the games hidden by the panic command
+     */
+    async handleResume(): Promise<void> {
+        try {
+            if (!this.webviewManager.restoreAll()) {
+                vscode.window.showInformationMessage('Take Your Time: There are no hidden games to bring back.');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to bring back the games.');
+            throw this.toCommandError(error, 'Failed to restore games', 'takeYourTime.resume');
+        }
+    }
+
+    /**
+     * Handles deep links:
+     * `vscode://DanielShalom.take-your-time/open?game=<preset name or url>` and `.../import?pack=<file>`
+     */
+    async handleUri(uri: vscode.Uri): Promise<void> {
+        const query = new URLSearchParams(uri.query);
+        let gameUrl: string | undefined;
+        try {
+            switch (uri.path) {
+                case '/open':
+                    gameUrl = await this.resolveGameLink(query.get('game'));
+                    break;
+                case '/import':
+                    await this.importPackLink(query.get('pack'));
+                    break;
+                default:
+                    throw new CommandError(`Unknown link ${uri.path}`, 'takeYourTime.uriHandler', { path: uri.path });
+            }
+        } catch (error) {
+            const detail = error instanceof ExtensionError ? error.message : 'The link could not be opened.';
+            vscode.window.showErrorMessage(`Take Your Time: ${detail}`);
+            throw this.toCommandError(error, 'Failed to handle link', 'takeYourTime.uriHandler');
+        }
+
+        // Reports its own failures
+        if (gameUrl) {
+            await this.handleOpenGame(gameUrl);
+        }
+    }
+
+    /**
+     * Finds the game a link asks for; sites that aren't in the game list need the user's confirmation
+     * @returns The URL to open, or undefined when the user declined
+     */
+    private async resolveGameLink(game: string | null): Promise<string | undefined> {
+        if (!game) {
+            throw new CommandError('The link does not say which game to open', 'takeYourTime.uriHandler');
+        }
+
+        const preset = this.config.getGamePresets().find(p => p.url === game || p.name.toLowerCase() === game.toLowerCase());
+        if (preset) {
+            return preset.url;
+        }
+
+        // Links to games that aren't in the list must pass the same checks as presets
+        const result = GamePresetSchema.safeParse({ name: game, url: game });
+        if (!result.success) {
+            throw new ConfigurationError(`"${game}" is not a known game or an http(s) URL`, {
+                game,
+                issues: result.error.issues
+            });
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            'Open a site that is not in your game list?',
+            { modal: true, detail: result.data.url },
+            'Open'
+        );
+        return confirmation === 'Open' ? result.data.url : undefined;
+    }
+
+    /**
+     * Imports a pack linked by a path relative to the workspace. Links can come from anyone,
+     * so the workspace must be trusted and the path must stay inside one of its folders.
+     */
+    private async importPackLink(pack: string | null): Promise<void> {
+        if (!pack) {
+            throw new CommandError('The link does not say which preset pack to import', 'takeYourTime.uriHandler');
+        }
+        if (!vscode.workspace.isTrusted) {
+            throw new ConfigurationError('Preset packs can only be imported from links in a trusted workspace', { pack });
+        }
+        if (path.posix.isAbsolute(pack) || path.win32.isAbsolute(pack) || pack.split(/[\\/]/).includes('..')) {
+            throw new ConfigurationError(`"${pack}" must be a path inside the workspace`, { pack });
+        }
+
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            throw new ConfigurationError(`Open a folder to import "${pack}"`, { pack });
+        }
+
+        const folder = folders[0].uri;
+        const packUri = vscode.Uri.joinPath(folder, pack);
+        if (!packUri.path.startsWith(`${folder.path.replace(/\/$/, '')}/`)) {
+            throw new ConfigurationError(`"${pack}" must be a path inside the workspace`, { pack });
+        }
+        await this.importPack(packUri);
+    }
+
+    /**
+     * Handles the import presets command: reads a pack file and merges it into, or replaces, the game list
+     */
+    async handleImportPresets(): Promise<void> {
+        try {
+            const [uri] = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { 'Preset packs': ['json'] },
+                title: 'Import Game Presets'
+            }) ?? [];
+            if (!uri) {
+                return;
+            }
+
+            const mode = await vscode.window.showQuickPick(
+                [
+                    { label: 'Merge', description: 'Add the games that are not in the list yet', mode: 'merge' as const },
+                    { label: 'Replace', description: 'Replace the game list with the pack', mode: 'replace' as const }
+                ],
+                { title: 'Import Game Presets', placeHolder: 'How should the pack be imported?' }
+            );
+            if (!mode) {
+                return;
+            }
+
+            await this.importPack(uri, mode.mode);
+        } catch (error) {
+            const detail = error instanceof ConfigurationError ? error.message : 'Failed to import the games.';
+            vscode.window.showErrorMessage(`Take Your Time: ${detail}`);
+            throw this.toCommandError(error, 'Failed to import presets', 'takeYourTime.importPresets');
+        }
+    }
+
+    /**
+     * Handles the export presets command: saves the chosen games from the settings as a pack file
+     */
+    async handleExportPresets(): Promise<void> {
+        try {
+            const presets = this.config.getConfiguredGamePresets();
+            if (presets.length === 0) {
+                vscode.window.showInformationMessage('Take Your Time: There are no games in takeYourTime.games to export.');
+                return;
+            }
+
+            const selection = await vscode.window.showQuickPick(
+                presets.map(preset => ({ label: preset.name, description: preset.url, picked: true, preset })),
+                { canPickMany: true, title: 'Export Game Presets', placeHolder: 'Choose the games to share' }
+            );
+            if (!selection || selection.length === 0) {
+                return;
+            }
+
+            const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+            const target = await vscode.window.showSaveDialog({
+                defaultUri: vscode.Uri.joinPath(defaultFolder, 'take-your-time-presets.json'),
+                filters: { 'Preset packs': ['json'] },
+                title: 'Export Game Presets'
+            });
+            if (!target) {
+                return;
+            }
+
+            await PresetPacks.write(target, selection.map(item => item.preset), vscode.workspace.name);
+            vscode.window.showInformationMessage(`Take Your Time: Exported ${selection.length} ${selection.length === 1 ? 'game' : 'games'} to ${target.fsPath}`);
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to export the games.');
+            throw this.toCommandError(error, 'Failed to export presets', 'takeYourTime.exportPresets');
+        }
+    }
+
+    /**
+     * Adds the games of a pack to the list, or replaces the list with them, after the user confirms.
+     * Games whose URL is already in the list, or earlier in the pack, are skipped.
+     */
+    private async importPack(uri: vscode.Uri, mode: 'merge' | 'replace' = 'merge'): Promise<void> {
+        const pack = await PresetPacks.read(uri);
+        const packName = pack.name ?? path.basename(uri.path);
+        const target = await this.pickSettingsTarget();
+        if (target === undefined) {
+            return;
+        }
+
+        // Compare with the list that will be rewritten, not the merged one in effect
+        const current = this.config.getGamePresetsIn(target);
+        const { added } = PresetPacks.merge(mode === 'replace' ? [] : current, pack.presets);
+        if (mode === 'merge' && added.length === 0) {
+            vscode.window.showInformationMessage(`Take Your Time: Every game in "${packName}" is already in your list.`);
+            return;
+        }
+
+        const games = (count: number): string => `${count} ${count === 1 ? 'game' : 'games'}`;
+        const skipped = pack.presets.length - added.length;
+        const confirmation = await vscode.window.showWarningMessage(
+            mode === 'replace'
+                ? `Replace your ${games(current.length)} with the ${games(added.length)} from "${packName}"?`
+                : `Import ${games(added.length)} from "${packName}"?`,
+            {
+                modal: true,
+                detail: [
+                    ...added.map(preset => `${preset.name}: ${preset.url}`),
+                    ...(skipped > 0 ? ['', `${games(skipped)} with a duplicate URL will be skipped.`] : [])
+                ].join('\n')
+            },
+            'Import'
+        );
+        if (confirmation !== 'Import') {
+            return;
+        }
+
+        await this.config.updateGamePresets(
+            list => PresetPacks.merge(mode === 'replace' ? [] : list, pack.presets).games,
+            target
+        );
+        vscode.window.showInformationMessage(`Take Your Time: Imported ${games(added.length)} from "${packName}".`);
+    }
+
+    /**
+     * Handles the focus next panel command: cycles through the open game panels
+     */
+    async handleFocusNextPanel(): Promise<void> {
+        if (!this.webviewManager.focusNextPanel()) {
+            vscode.window.showInformationMessage('Take Your Time: There are no game panels open.');
+        }
+    }
+
+    /**
+     * Handles the close all panels command
+     */
+    async handleCloseAllPanels(): Promise<void> {
+        this.webviewManager.disposeAll();
+    }
+
+    /**
+     * Handles the begin wait command, used by other extensions and keybindings
+     * @returns The id of the started wait
+     */
+    async handleBeginWait(label: string, options?: { estimatedMs?: number }): Promise<string> {
+        try {
+            return this.waitTracker.begin(label, {
+                estimatedMs: options?.estimatedMs,
+                source: 'api'
+            }).id;
+        } catch (error) {
+            throw this.toCommandError(error, 'Failed to begin wait', 'takeYourTime.beginWait');
+        }
+    }
+
+    /**
+     * Handles the end wait command
+     */
+    async handleEndWait(id: string, result?: JobResult, detail?: string): Promise<void> {
+        try {
+            this.waitTracker.end(id, { result, detail });
+        } catch (error) {
+            throw this.toCommandError(error, 'Failed to end wait', 'takeYourTime.endWait');
+        }
+    }
+
+    /**
+     * Handles the show stats command
+     */
+    async handleShowStats(): Promise<void> {
+        try {
+            this.statsPanel.show();
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to show statistics.');
+            throw this.toCommandError(error, 'Failed to show statistics', 'takeYourTime.showStats');
+        }
+    }
+
+    /**
+     * Handles the diagnose presets command
+     */
+    async handleDiagnosePresets(): Promise<void> {
+        try {
+            await this.presetDiagnostics.run();
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to check game sites.');
+            throw this.toCommandError(error, 'Failed to diagnose presets', 'takeYourTime.diagnosePresets');
+        }
+    }
+
+    /**
+     * Handles the export diagnostics command
+     */
+    async handleExportDiagnostics(): Promise<void> {
+        try {
+            const target = await this.diagnosticsExporter.export();
+            if (!target) {
+                return;
+            }
+
+            const selection = await vscode.window.showInformationMessage(
+                `Take Your Time: Diagnostics saved to ${target.fsPath}`,
+                'Open'
+            );
+            if (selection === 'Open') {
+                await vscode.window.showTextDocument(target);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage('Take Your Time: Failed to export diagnostics.');
+            throw this.toCommandError(error, 'Failed to export diagnostics', 'takeYourTime.exportDiagnostics');
+        }
+    }
+
+    /**
+     * Handles the status bar menu command
+     */
+    async handleShowMenu(): Promise<void> {
+        const panels = this.webviewManager.getActivePanels();
+        const items: (vscode.QuickPickItem & { action: () => Promise<void> })[] = [
+            {
+                label: '$(game) Open game',
+                action: () => this.handleOpenGame()
+            },
+            {
+                label: '$(list-selection) Open game with...',
+                action: () => this.handleOpenGameWith()
+            }
+        ];
+
+        if (panels.length > 0) {
+            items.push(
+                {
+                    label: '$(arrow-swap) Switch game in current panel',
+                    action: () => this.switchGameInCurrentPanel()
+                },
+                {
+                    label: '$(close-all) Close all panels',
+                    description: `${panels.length} open`,
+                    action: () => this.handleCloseAllPanels()
+                }
+            );
+        }
+
+        const waits = this.waitTracker.getActiveWaits();
+        const selection = await vscode.window.showQuickPick(items, {
+            title: 'Take Your Time',
+            placeHolder: waits.length > 0
+                ? `Waiting on ${waits.map(wait => wait.label).join(', ')}`
+                : 'Choose an action'
+        });
+
+        if (selection) {
+            await selection.action();
+        }
+    }
+
+    private async switchGameInCurrentPanel(): Promise<void> {
+        const panels = this.webviewManager.getActivePanels();
+        const panel = panels.find(p => p.active) ?? panels.find(p => p.visible) ?? panels[panels.length - 1];
+        if (!panel) {
+            return;
+        }
+
+        const preset = await this.pickGame(`Switch game in "${panel.title}"`, 'Choose a game');
+        if (preset && this.webviewManager.switchGame(panel, preset.url)) {
+            panel.reveal();
+        }
+    }
+
+    /**
+     * Shows the presets with favorites and recently played games on top.
+     * Each game has a star button to add or remove it from the favorites.
+     */
+    private pickGame(title: string, placeholder: string): Promise<GamePreset | undefined> {
+        type GameItem = vscode.QuickPickItem & { preset?: GamePreset };
+
+        const toItem = (preset: GamePreset): GameItem => {
+            const isFavorite = this.gameLibrary.isFavorite(preset.url);
+            return {
+                label: preset.name,
+                description: preset.category ? `${preset.category} · ${preset.url}` : preset.url,
+                buttons: [{
+                    iconPath: new vscode.ThemeIcon(isFavorite ? 'star-full' : 'star-empty'),
+                    tooltip: isFavorite ? 'Remove from favorites' : 'Add to favorites'
+                }],
+                preset
+            };
+        };
+        const section = (label: string, presets: GamePreset[]): GameItem[] => presets.length === 0
+            ? []
+            : [{ label, kind: vscode.QuickPickItemKind.Separator }, ...presets.map(toItem)];
+        const buildItems = (): GameItem[] => {
+            const { favorites, recent, others } = this.gameLibrary.group(this.config.getGamePresets());
+            return [...section('Favorites', favorites), ...section('Recent', recent), ...section('All games', others)];
+        };
+
+        const quickPick = vscode.window.createQuickPick<GameItem>();
+        quickPick.title = title;
+        quickPick.placeholder = placeholder;
+        quickPick.matchOnDescription = true;
+        quickPick.items = buildItems();
+
+        return new Promise(resolve => {
+            quickPick.onDidTriggerItemButton(async event => {
+                if (event.item.preset) {
+                    await this.gameLibrary.toggleFavorite(event.item.preset.url);
+                    quickPick.items = buildItems();
+                }
+            });
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]?.preset);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+    }
+
+    /**
+     * Asks whether to write to user or workspace settings, when there is a workspace
+     * @returns The target, or undefined when the user cancelled
+     */
+    private async pickSettingsTarget(): Promise<vscode.ConfigurationTarget | undefined> {
+        if (!vscode.workspace.workspaceFolders?.length) {
+            return vscode.ConfigurationTarget.Global;
+        }
+
+        const selection = await vscode.window.showQuickPick(
+            [
+                { label: 'User settings', target: vscode.ConfigurationTarget.Global },
+                { label: 'Workspace settings', target: vscode.ConfigurationTarget.Workspace }
+            ],
+            { title: 'Save to', placeHolder: 'Where should the game be saved?' }
+        );
+        return selection?.target;
+    }
+
+    private validateNewPresetUrl(url: string): string | undefined {
+        const result = GamePresetSchema.shape.url.safeParse(url);
+        if (!result.success) {
+            return result.error.issues[0]?.message;
+        }
+        if (this.config.getGamePresets().some(preset => preset.url === url)) {
+            return 'This game is already in the list';
+        }
+        return undefined;
+    }
+
+    private toCommandError(error: unknown, message: string, commandId: string): ExtensionError {
+        // Keep the original code so callers can rely on it
+        if (error instanceof ExtensionError) {
+            return error;
+        }
+        return new CommandError(message, commandId, { error });
+    }
 }
@@ -1,62 +1,251 @@
 import * as vscode from 'vscode';
 import { z } from 'zod';
+import { BuiltinGames } from '../games/BuiltinGames';
+import { ConfigurationError } from '../errors/ConfigurationError';
+import { parseTimeWindow } from '../utils/schedule';
 
-const GamePresetSchema = z.object({
-    name: z.string(),
-    url: z.string().url()
+const isGameUrl = (url: string): boolean => {
+    if (BuiltinGames.isBuiltinUrl(url)) {
+        return BuiltinGames.get(url) !== undefined;
+    }
+    try {
+        const protocol = new URL(url).protocol;
+        return protocol === 'http:' || protocol === 'https:';
+    } catch {
+        return false;
+    }
+};
+
+const GameUrlSchema = z.string().refine(isGameUrl, {
+    message: 'Must be an http(s) URL or a known builtin:<game> id'
+});
+
+export const GamePresetSchema = z.object({
+    name: z.string().min(1),
+    url: GameUrlSchema,
+    category: z.string().min(1).optional(),
+    embed: z.enum(['iframe', 'external']).default('iframe'),
+    previewImage: z.string().min(1).optional(),
+    description: z.string().optional()
+});
+
+/**
+ * A shareable list of presets, as stored in preset pack files
+ */
+export const PresetPackSchema = z.object({
+    version: z.literal(1),
+    name: z.string().min(1).optional(),
+    presets: z.array(GamePresetSchema)
+});
+
+const TaskWatchModeSchema = z.enum(['off', 'prompt', 'auto']);
+const WhenHiddenModeSchema = z.enum(['keepRunning', 'pause', 'unload']);
+const PanelModeSchema = z.enum(['single', 'multiple']);
+const PanelColumnSchema = z.enum(['active', 'beside', 'newWindow']);
+
+const isValidRegExp = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const CommandPatternSchema = z.string().min(1).refine(isValidRegExp, {
+    message: 'Must be a valid regular expression'
+});
+
+const isTimeWindow = (text: string): boolean => {
+    try {
+        parseTimeWindow(text);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const TimeWindowSchema = z.string().refine(isTimeWindow, {
+    message: 'Must be a time range like "12:00-13:30"'
 });
 
 const ConfigSchema = z.object({
-    gameUrl: z.string().url().default('https://onlinegames.io/'),
+    gameUrl: GameUrlSchema.default('https://onlinegames.io/'),
     games: z.array(GamePresetSchema).default([
-        { name: 'OnlineGames.io', url: 'https://onlinegames.io/' }
+        { name: 'OnlineGames.io', url: 'https://onlinegames.io/', embed: 'iframe' }
     ]),
-    fallbackUrl: z.string().url().optional().nullable(),
-    enableErrorReporting: z.boolean().default(true)
+    fallbackUrl: GameUrlSchema.optional().nullable(),
+    enableErrorReporting: z.boolean().default(true),
+    includeBuiltinGames: z.boolean().default(true),
+    resumeLastGame: z.boolean().default(true),
+    panelMode: PanelModeSchema.default('multiple'),
+    panelColumn: PanelColumnSchema.default('active'),
+    whenHiddenMode: WhenHiddenModeSchema.default('pause'),
+    whenHiddenUnloadAfterSeconds: z.number().int().min(0).default(60),
+    breakTimerMinutes: z.number().int().min(0).default(10),
+    breakTimerWarningSeconds: z.number().int().min(0).default(60),
+    limitsDailyMinutes: z.number().int().min(0).default(0),
+    limitsAllowedHours: z.array(TimeWindowSchema).default([]),
+    limitsOnlyWhileWaiting: z.boolean().default(false),
+    taskWatchMode: TaskWatchModeSchema.default('prompt'),
+    taskWatchPatterns: z.array(z.string().min(1)).default(['build', 'test']),
+    terminalWatchEnabled: z.boolean().default(true),
+    terminalWatchThresholdSeconds: z.number().int().min(1).default(30),
+    terminalWatchInclude: z.array(CommandPatternSchema).default([]),
+    terminalWatchExclude: z.array(CommandPatternSchema).default([])
 });
 
 export type GamePreset = z.infer<typeof GamePresetSchema>;
+export type GamePresetInput = z.input<typeof GamePresetSchema>;
+export type PresetPack = z.infer<typeof PresetPackSchema>;
+export type TaskWatchMode = z.infer<typeof TaskWatchModeSchema>;
+export type WhenHiddenMode = z.infer<typeof WhenHiddenModeSchema>;
+export type PanelMode = z.infer<typeof PanelModeSchema>;
+export type PanelColumn = z.infer<typeof PanelColumnSchema>;
 type Config = z.infer<typeof ConfigSchema>;
 
+const DEFAULT_GAMES: GamePresetInput[] = [
+    { name: 'OnlineGames.io', url: 'https://onlinegames.io/' },
+    { name: 'Playpager', url: 'https://playpager.com/' },
+    {
+        name: 'CrazyGames',
+        url: 'https://www.crazygames.com/',
+        embed: 'external',
+        previewImage: 'media/crazyGames.png'
+    },
+    {
+        name: 'SMB Games',
+        url: 'https://www.smbgames.be/',
+        embed: 'external',
+        previewImage: 'media/smb_preview.png',
+        description: 'Classic Mario games need a full browser to play.'
+    }
+];
+
 export class ExtensionConfig {
     private config: Config;
+    private problems: ConfigurationError[] = [];
+    private workspacePresets: GamePreset[] = [];
 
     constructor() {
         this.config = this.loadConfig();
     }
 
     private loadConfig(): Config {
-        try {
-            const vscodeConfig = vscode.workspace.getConfiguration('takeYourTime');
-
-            const rawConfig = {
-                gameUrl: vscodeConfig.get<string>('gameUrl') || 'https://onlinegames.io/',
-                games: vscodeConfig.get<GamePreset[]>('games') || [],
-                fallbackUrl: vscodeConfig.get<string>('fallbackUrl') || undefined,
-                enableErrorReporting: vscodeConfig.get<boolean>('enableErrorReporting') ?? true
-            };
-
-            // Ensure there's at least one game if the array is empty
-            if (rawConfig.games.length === 0) {
-                rawConfig.games.push(
-                    { name: 'OnlineGames.io', url: 'https://onlinegames.io/' },
-                    { name: 'Playpager', url: 'https://playpager.com/' },
-                    { name: 'CrazyGames', url: 'https://www.crazygames.com/' },
-                    { name: 'SMB Games', url: 'https://www.smbgames.be/' }
-                );
-            }
+        const problems: ConfigurationError[] = [];
+        const vscodeConfig = vscode.workspace.getConfiguration('takeYourTime');
+
+        const rawGames = vscodeConfig.get<unknown>('games');
+        const games = Array.isArray(rawGames) ? this.parseGamePresets(rawGames, problems) : [];
+
+        // Ensure there's at least one game if the array is empty
+        if (games.length === 0) {
+            games.push(...DEFAULT_GAMES.map(game => GamePresetSchema.parse(game)));
+        }
 
-            return ConfigSchema.parse(rawConfig);
-        } catch (error) {
-            console.warn('Failed to parse configuration, using defaults:', error);
-            const defaults = {
-                gameUrl: 'https://onlinegames.io/',
-                games: [{ name: 'OnlineGames.io', url: 'https://onlinegames.io/' }],
-                fallbackUrl: undefined,
-                enableErrorReporting: true
-            };
-            return defaults;
+        const rawConfig = {
+            gameUrl: vscodeConfig.get<string>('gameUrl') || 'https://onlinegames.io/',
+            games,
+            fallbackUrl: vscodeConfig.get<string>('fallbackUrl') || undefined,
+            enableErrorReporting: vscodeConfig.get<boolean>('enableErrorReporting') ?? true,
+            includeBuiltinGames: vscodeConfig.get<boolean>('includeBuiltinGames') ?? true,
+            resumeLastGame: vscodeConfig.get<boolean>('resumeLastGame') ?? true,
+            panelMode: vscodeConfig.get<string>('panelMode') || 'multiple',
+            panelColumn: vscodeConfig.get<string>('panelColumn') || 'active',
+            whenHiddenMode: vscodeConfig.get<string>('whenHidden.mode') || 'pause',
+            whenHiddenUnloadAfterSeconds: vscodeConfig.get<number>('whenHidden.unloadAfterSeconds') ?? 60,
+            breakTimerMinutes: vscodeConfig.get<number>('breakTimer.minutes') ?? 10,
+            breakTimerWarningSeconds: vscodeConfig.get<number>('breakTimer.warningSeconds') ?? 60,
+            limitsDailyMinutes: vscodeConfig.get<number>('limits.dailyMinutes') ?? 0,
+            limitsAllowedHours: vscodeConfig.get<string[]>('limits.allowedHours') ?? [],
+            limitsOnlyWhileWaiting: vscodeConfig.get<boolean>('limits.onlyWhileWaiting') ?? false,
+            taskWatchMode: vscodeConfig.get<string>('taskWatch.mode') || 'prompt',
+            taskWatchPatterns: vscodeConfig.get<string[]>('taskWatch.patterns') ?? ['build', 'test'],
+            terminalWatchEnabled: vscodeConfig.get<boolean>('terminalWatch.enabled') ?? true,
+            terminalWatchThresholdSeconds: vscodeConfig.get<number>('terminalWatch.thresholdSeconds') ?? 30,
+            terminalWatchInclude: vscodeConfig.get<string[]>('terminalWatch.include') ?? [],
+            terminalWatchExclude: vscodeConfig.get<string[]>('terminalWatch.exclude') ?? []
+        };
+
+        // Each setting is validated on its own, so one bad value doesn't reset the others
+        const config: Record<string, unknown> = {};
+        (Object.keys(ConfigSchema.shape) as (keyof Config)[]).forEach(field => {
+            config[field] = ExtensionConfig.parseSetting(field, rawConfig[field], problems);
+        });
+        this.problems = problems;
+        return config as Config;
+    }
+
+    /**
+     * Validates one setting: invalid entries of a list are dropped, any other invalid value falls back to its default
+     * @param problems Receives a `ConfigurationError` for every invalid value or entry
+     */
+    private static parseSetting(field: keyof Config, rawValue: unknown, problems: ConfigurationError[]): unknown {
+        const schema: z.ZodTypeAny = ConfigSchema.shape[field];
+        const result = schema.safeParse(rawValue);
+        if (result.success) {
+            return result.data;
         }
+
+        result.error.issues.forEach(issue => {
+            const setting = ExtensionConfig.toSettingKey([field, ...issue.path]);
+            problems.push(new ConfigurationError(`${setting}: ${issue.message}`, { setting, issue }));
+        });
+
+        const listSchema = schema instanceof z.ZodDefault ? schema.removeDefault() : schema;
+        if (Array.isArray(rawValue) && listSchema instanceof z.ZodArray) {
+            const validEntries = rawValue.filter(entry => listSchema.element.safeParse(entry).success);
+            const entriesResult = schema.safeParse(validEntries);
+            if (entriesResult.success) {
+                return entriesResult.data;
+            }
+        }
+        return schema.parse(undefined);
+    }
+
+    /**
+     * Validates each preset on its own so one bad entry doesn't discard the rest
+     * @param problems Receives a `ConfigurationError` for every invalid entry
+     */
+    private parseGamePresets(rawGames: unknown[], problems: ConfigurationError[]): GamePreset[] {
+        const games: GamePreset[] = [];
+        rawGames.forEach((rawGame, index) => {
+            const result = GamePresetSchema.safeParse(rawGame);
+            if (result.success) {
+                games.push(result.data);
+                return;
+            }
+
+            const setting = `takeYourTime.games[${index}]`;
+            const details = result.error.issues
+                .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+                .join(', ');
+            problems.push(new ConfigurationError(`${setting} was ignored (${details})`, {
+                setting,
+                index,
+                issues: result.error.issues
+            }));
+        });
+        return games;
+    }
+
+    /**
+     * Maps a zod issue path back to the setting it came from, e.g. `terminalWatchInclude.0`
+     * to `takeYourTime.terminalWatch.include[0]`
+     */
+    private static toSettingKey(path: (string | number)[]): string {
+        const [field, ...rest] = path;
+        const key = String(field).replace(/^(taskWatch|terminalWatch|breakTimer|limits|whenHidden)([A-Z])/, (_, group: string, first: string) =>
+            `${group}.${first.toLowerCase()}`
+        );
+        return `takeYourTime.${key}${rest.map(part => typeof part === 'number' ? `[${part}]` : `.${part}`).join('')}`;
+    }
+
+    /**
+     * Gets the problems found in the settings when they were last loaded
+     */
+    public getProblems(): readonly ConfigurationError[] {
+        return this.problems;
     }
 
     public getGameUrl(): string {
@@ -64,6 +253,33 @@ export class ExtensionConfig {
     }
 
     public getGamePresets(): GamePreset[] {
+        const games = [
+            ...this.config.games,
+            ...this.workspacePresets.filter(preset => !this.config.games.some(game => game.url === preset.url))
+        ];
+        if (!this.config.includeBuiltinGames) {
+            return games;
+        }
+
+        // Offline games are always available, unless the user already listed them
+        const builtins = BuiltinGames.all
+            .map((game): GamePreset => ({ name: game.name, url: BuiltinGames.toUrl(game), embed: 'iframe' }))
+            .filter(preset => !games.some(game => game.url.toLowerCase() === preset.url));
+
+        return [...games, ...builtins];
+    }
+
+    /**
+     * Adds presets from the workspace's preset pack after the configured ones; they are not written to the settings
+     */
+    public setWorkspacePresets(presets: GamePreset[]): void {
+        this.workspacePresets = presets;
+    }
+
+    /**
+     * Gets the presets from the `takeYourTime.games` setting, without the builtin games
+     */
+    public getConfiguredGamePresets(): GamePreset[] {
         return this.config.games;
     }
 
@@ -71,10 +287,138 @@ export class ExtensionConfig {
         return this.config.fallbackUrl;
     }
 
+    public isResumeLastGameEnabled(): boolean {
+        return this.config.resumeLastGame;
+    }
+
+    public getPanelMode(): PanelMode {
+        return this.config.panelMode;
+    }
+
+    /**
+     * Gets where new game panels open
+     */
+    public getPanelColumn(): PanelColumn {
+        return this.config.panelColumn;
+    }
+
+    public getWhenHiddenMode(): WhenHiddenMode {
+        return this.config.whenHiddenMode;
+    }
+
+    public getUnloadDelayMs(): number {
+        return this.config.whenHiddenUnloadAfterSeconds * 1000;
+    }
+
+    /**
+     * Gets the length of a break, 0 when the break timer is off
+     */
+    public getBreakTimerMs(): number {
+        return this.config.breakTimerMinutes * 60 * 1000;
+    }
+
+    public getBreakWarningMs(): number {
+        return this.config.breakTimerWarningSeconds * 1000;
+    }
+
+    /**
+     * Gets the daily play quota, 0 when there is none
+     */
+    public getDailyQuotaMs(): number {
+        return this.config.limitsDailyMinutes * 60 * 1000;
+    }
+
+    /**
+     * Gets the time ranges games are allowed in, e.g. "12:00-13:30". Empty allows any time.
+     */
+    public getAllowedHours(): string[] {
+        return this.config.limitsAllowedHours;
+    }
+
+    public isOnlyWhileWaiting(): boolean {
+        return this.config.limitsOnlyWhileWaiting;
+    }
+
     public isErrorReportingEnabled(): boolean {
         return this.config.enableErrorReporting;
     }
 
+    public getTaskWatchMode(): TaskWatchMode {
+        return this.config.taskWatchMode;
+    }
+
+    public getTaskWatchPatterns(): string[] {
+        return this.config.taskWatchPatterns;
+    }
+
+    public isTerminalWatchEnabled(): boolean {
+        return this.config.terminalWatchEnabled;
+    }
+
+    public getTerminalWatchThresholdMs(): number {
+        return this.config.terminalWatchThresholdSeconds * 1000;
+    }
+
+    public getTerminalWatchInclude(): string[] {
+        return this.config.terminalWatchInclude;
+    }
+
+    public getTerminalWatchExclude(): string[] {
+        return this.config.terminalWatchExclude;
+    }
+
+    /**
+     * Gets a copy of the parsed settings, e.g. for diagnostics
+     */
+    public toJSON(): Record<string, unknown> {
+        return { ...this.config };
+    }
+
+    /**
+     * Rewrites the `takeYourTime.games` setting where it is defined (workspace first, then user settings)
+     * @param update Receives the currently configured presets and returns the new list
+     */
+    public async updateGamePresets(
+        update: (games: GamePresetInput[]) => GamePresetInput[],
+        target?: vscode.ConfigurationTarget
+    ): Promise<void> {
+        const vscodeConfig = vscode.workspace.getConfiguration('takeYourTime');
+        const resolvedTarget = target ?? ExtensionConfig.resolveTarget(vscodeConfig.inspect<GamePresetInput[]>('games'));
+
+        await vscodeConfig.update('games', update(this.getGamePresetsIn(resolvedTarget)), resolvedTarget);
+        this.reload();
+    }
+
+    /**
+     * Gets the `takeYourTime.games` list as it applies at a settings level: a workspace without its own list
+     * starts from the user's list, not from the defaults
+     */
+    public getGamePresetsIn(target: vscode.ConfigurationTarget): GamePresetInput[] {
+        const inspected = vscode.workspace.getConfiguration('takeYourTime').inspect<GamePresetInput[]>('games');
+        const current = (target === vscode.ConfigurationTarget.Workspace ? inspected?.workspaceValue : undefined)
+            ?? inspected?.globalValue
+            ?? inspected?.defaultValue
+            ?? [];
+        return current.map(game => ({ ...game }));
+    }
+
+    /**
+     * Rewrites the `takeYourTime.gameUrl` setting where it is defined (workspace first, then user settings)
+     */
+    public async setDefaultGameUrl(url: string, target?: vscode.ConfigurationTarget): Promise<void> {
+        const vscodeConfig = vscode.workspace.getConfiguration('takeYourTime');
+        const resolvedTarget = target ?? ExtensionConfig.resolveTarget(vscodeConfig.inspect<string>('gameUrl'));
+
+        await vscodeConfig.update('gameUrl', url, resolvedTarget);
+        this.reload();
+    }
+
+    private static resolveTarget(inspected: { workspaceValue?: unknown } | undefined): vscode.ConfigurationTarget {
+        return inspected?.workspaceValue !== undefined
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+    }
+
     public reload(): void {
         this.config = this.loadConfig();
     }
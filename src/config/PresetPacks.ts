@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GamePreset, GamePresetInput, PresetPack, PresetPackSchema } from './ExtensionConfig';
+import { ConfigurationError } from '../errors/ConfigurationError';
+
+/**
+ * Reads preset packs and merges them into a game list
+ */
+export class PresetPacks {
+    /**
+     * Parses and validates the JSON of a pack
+     * @param source Where the pack came from, used in error messages
+     * @throws ConfigurationError if the text is not JSON or not a valid pack
+     */
+    static parse(text: string, source: string): PresetPack {
+        let raw: unknown;
+        try {
+            raw = JSON.parse(text);
+        } catch {
+            // The parser's message quotes the file, which may not be meant for the log
+            throw new ConfigurationError(`${source} is not valid JSON`, { source });
+        }
+
+        const result = PresetPackSchema.safeParse(raw);
+        if (!result.success) {
+            const details = result.error.issues
+                .map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+                .join(', ');
+            throw new ConfigurationError(`${source} is not a valid preset pack (${details})`, {
+                source,
+                issues: result.error.issues
+            });
+        }
+        return result.data;
+    }
+
+    /**
+     * @throws ConfigurationError if the file is not a valid pack
+     */
+    static async read(uri: vscode.Uri): Promise<PresetPack> {
+        const content = await vscode.workspace.fs.readFile(uri);
+        return this.parse(Buffer.from(content).toString('utf8'), path.basename(uri.path));
+    }
+
+    /**
+     * Formats presets as a pack file
+     */
+    static serialize(presets: GamePreset[], name?: string): string {
+        const pack: PresetPack = { version: 1, ...(name ? { name } : {}), presets };
+        return `${JSON.stringify(pack, null, 2)}\n`;
+    }
+
+    static async write(uri: vscode.Uri, presets: GamePreset[], name?: string): Promise<void> {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(this.serialize(presets, name), 'utf8'));
+    }
+
+    /**
+     * Appends the presets whose URL is not in the list yet, keeping the first of any duplicates
+     * @returns The merged list and the presets that were added to it
+     */
+    static merge(games: GamePresetInput[], presets: GamePreset[]): { games: GamePresetInput[]; added: GamePreset[] } {
+        const urls = new Set(games.map(game => game.url));
+        const added = presets.filter(preset => {
+            if (urls.has(preset.url)) {
+                return false;
+            }
+            urls.add(preset.url);
+            return true;
+        });
+        return { games: [...games, ...added], added };
+    }
+}
@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig, GamePreset } from './ExtensionConfig';
+import { PresetPacks } from './PresetPacks';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { ExtensionError } from '../errors/ExtensionError';
+
+/**
+ * Merges a preset pack committed as `.vscode/tyt-presets.json` into the game list of trusted workspaces,
+ * and reloads it when the file changes
+ */
+export class WorkspacePresets implements vscode.Disposable {
+    static readonly fileName = '.vscode/tyt-presets.json';
+
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fires when the workspace presets have been reloaded
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(
+        private readonly config: ExtensionConfig,
+        private readonly errorLog: ErrorLog
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WorkspacePresets.fileName}`);
+        const reload = (): void => {
+            void this.load();
+        };
+
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidGrantWorkspaceTrust(reload)
+        );
+    }
+
+    /**
+     * Reads the pack of every workspace folder and hands its presets to the config
+     */
+    public async load(): Promise<void> {
+        const presets: GamePreset[] = [];
+
+        // An untrusted repository shouldn't be able to add sites to the game list
+        if (vscode.workspace.isTrusted) {
+            for (const folder of vscode.workspace.workspaceFolders ?? []) {
+                const uri = vscode.Uri.joinPath(folder.uri, WorkspacePresets.fileName);
+                try {
+                    presets.push(...(await PresetPacks.read(uri)).presets);
+                } catch (error) {
+                    if (error instanceof vscode.FileSystemError && error.code === 'FileNotFound') {
+                        continue;
+                    }
+                    this.errorLog.record(error, { presetPack: uri.toString() });
+                    vscode.window.showWarningMessage(
+                        `Take Your Time: ${error instanceof ExtensionError ? error.message : `Failed to read ${WorkspacePresets.fileName}`}`
+                    );
+                }
+            }
+        }
+
+        this.config.setWorkspacePresets(PresetPacks.merge([], presets).added);
+        this.onDidChangeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.onDidChangeEmitter.dispose();
+    }
+}
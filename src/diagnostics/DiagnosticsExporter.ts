@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { TYTWebviewManager } from '../webview/WebviewManager';
+import { WaitTracker } from '../waits/WaitTracker';
+import { ErrorLog } from './ErrorLog';
+
+/**
+ * Removes personal data from diagnostics text: URLs are cut down to their origin,
+ * home directories become `~` and e-mail addresses are dropped
+ */
+export function redactText(text: string, homeDir: string = os.homedir()): string {
+    let redacted = text;
+
+    if (homeDir.length > 1) {
+        redacted = redacted.split(homeDir).join('~');
+        // Paths inside JSON strings have escaped backslashes on Windows
+        redacted = redacted.split(JSON.stringify(homeDir).slice(1, -1)).join('~');
+    }
+
+    return redacted
+        .replace(/(https?:\/\/[^/\s"'<>?#]+)[^\s"'<>]*/gi, (_match, origin: string) => origin)
+        .replace(/[\w.+-]+@[\w-]+\.[\w.-]+/g, '<email>')
+        .replace(/([/\\](?:home|Users)[/\\]{1,2})[^/\\\s"']+/g, '$1<user>');
+}
+
+/**
+ * Writes a redacted JSON bundle with settings, state and recent errors for bug reports
+ */
+export class DiagnosticsExporter {
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly config: ExtensionConfig,
+        private readonly errorLog: ErrorLog,
+        private readonly webviewManager: TYTWebviewManager,
+        private readonly waitTracker: WaitTracker
+    ) { }
+
+    /**
+     * Asks where to save the bundle and writes it
+     * @returns The written file, or undefined if the user cancelled
+     */
+    public async export(): Promise<vscode.Uri | undefined> {
+        const date = new Date().toISOString().slice(0, 10);
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(defaultFolder, `take-your-time-diagnostics-${date}.json`),
+            filters: { JSON: ['json'] },
+            title: 'Export Take Your Time Diagnostics'
+        });
+        if (!target) {
+            return undefined;
+        }
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(this.createBundle(), 'utf8'));
+        return target;
+    }
+
+    /**
+     * Builds the redacted bundle as pretty-printed JSON
+     */
+    public createBundle(): string {
+        const now = Date.now();
+        const bundle = {
+            generatedAt: new Date(now).toISOString(),
+            extension: {
+                id: this.context.extension.id,
+                version: this.context.extension.packageJSON.version
+            },
+            environment: {
+                vscodeVersion: vscode.version,
+                platform: process.platform,
+                arch: process.arch,
+                uiKind: vscode.env.uiKind === vscode.UIKind.Web ? 'web' : 'desktop',
+                remoteName: vscode.env.remoteName ?? null
+            },
+            settings: this.config.toJSON(),
+            state: {
+                openPanels: this.webviewManager.getActivePanels().length,
+                // Labels can contain command lines, so only the kind and age of each wait is kept
+                activeWaits: this.waitTracker.getActiveWaits().map(wait => ({
+                    source: wait.source,
+                    elapsedMs: now - wait.startedAt
+                }))
+            },
+            errorReportingEnabled: this.config.isErrorReportingEnabled(),
+            errors: this.errorLog.getRecords()
+        };
+
+        return redactText(JSON.stringify(bundle, ErrorLog.jsonReplacer, 2));
+    }
+}
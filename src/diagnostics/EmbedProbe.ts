@@ -0,0 +1,146 @@
+import { ExtensionError } from '../errors/ExtensionError';
+import { ErrorLog } from './ErrorLog';
+
+export type FramingVerdict = 'allowed' | 'refused' | 'unknown';
+
+export type ProbeErrorKind = 'tls' | 'timeout' | 'network' | 'redirect' | 'http';
+
+export interface ProbeReport {
+    url: string;
+    finalUrl: string;
+    status?: number;
+    redirects: string[];
+    verdict: FramingVerdict;
+    reasons: string[];
+    error?: { kind: ProbeErrorKind; message: string };
+}
+
+/**
+ * Checks from the extension host whether a site allows being framed.
+ * Webviews can't see why a cross-origin iframe stayed blank, but the response headers tell.
+ */
+export class EmbedProbe {
+    private static readonly TIMEOUT_MS = 10000;
+    private static readonly MAX_REDIRECTS = 5;
+
+    // Headers rarely change within a session, and each reload would otherwise refetch the site
+    private static readonly verdicts = new Map<string, Promise<FramingVerdict>>();
+
+    /**
+     * Gets whether a site allows framing, probing it only the first time it's asked about
+     */
+    static checkFraming(url: string, errorLog: ErrorLog): Promise<FramingVerdict> {
+        let verdict = this.verdicts.get(url);
+        if (!verdict) {
+            verdict = this.probe(url).then(report => {
+                if (report.error) {
+                    errorLog.record(new ExtensionError('Failed to check whether the site allows framing', {
+                        url,
+                        kind: report.error.kind,
+                        reason: report.error.message
+                    }));
+                }
+                return report.verdict;
+            });
+            this.verdicts.set(url, verdict);
+        }
+        return verdict;
+    }
+
+    /**
+     * Fetches a URL, following redirects by hand so each hop is reported, and inspects
+     * the final response's framing headers
+     */
+    static async probe(url: string, timeoutMs: number = this.TIMEOUT_MS): Promise<ProbeReport> {
+        const report: ProbeReport = { url, finalUrl: url, redirects: [], verdict: 'unknown', reasons: [] };
+        const signal = AbortSignal.timeout(timeoutMs);
+
+        try {
+            let currentUrl = url;
+            for (let hop = 0; hop <= this.MAX_REDIRECTS; hop++) {
+                const response = await fetch(currentUrl, { redirect: 'manual', signal });
+                // Only the headers matter
+                response.body?.cancel().catch(() => undefined);
+                report.status = response.status;
+                report.finalUrl = currentUrl;
+
+                const location = response.headers.get('location');
+                if (response.status >= 300 && response.status < 400 && location) {
+                    currentUrl = new URL(location, currentUrl).toString();
+                    report.redirects.push(currentUrl);
+                    continue;
+                }
+
+                if (response.status >= 400) {
+                    report.error = { kind: 'http', message: `Server responded with HTTP ${response.status}` };
+                }
+
+                const { verdict, reasons } = this.inspectHeaders(response.headers);
+                report.verdict = verdict;
+                report.reasons = reasons;
+                return report;
+            }
+
+            report.error = { kind: 'redirect', message: `More than ${this.MAX_REDIRECTS} redirects` };
+        } catch (error) {
+            report.error = this.classifyError(error);
+        }
+        return report;
+    }
+
+    /**
+     * Interprets `X-Frame-Options` and `Content-Security-Policy: frame-ancestors`
+     */
+    static verdictFromHeaders(headers: Headers): FramingVerdict {
+        return this.inspectHeaders(headers).verdict;
+    }
+
+    /**
+     * Extracts the `frame-ancestors` sources from a CSP header, if the directive is present
+     */
+    static getFrameAncestors(csp: string | null): string[] | undefined {
+        if (!csp) {
+            return undefined;
+        }
+
+        const directive = csp
+            .split(/[;,]/)
+            .map(part => part.trim().split(/\s+/))
+            .find(tokens => tokens[0]?.toLowerCase() === 'frame-ancestors');
+
+        return directive?.slice(1).map(source => source.toLowerCase());
+    }
+
+    private static inspectHeaders(headers: Headers): { verdict: FramingVerdict; reasons: string[] } {
+        const reasons: string[] = [];
+
+        const frameOptions = headers.get('x-frame-options')?.trim().toLowerCase();
+        if (frameOptions === 'deny' || frameOptions === 'sameorigin') {
+            reasons.push(`X-Frame-Options: ${frameOptions.toUpperCase()}`);
+        }
+
+        const ancestors = this.getFrameAncestors(headers.get('content-security-policy'));
+        if (ancestors && !ancestors.includes('*')) {
+            // A webview is never one of the site's own origins
+            reasons.push(`Content-Security-Policy: frame-ancestors ${ancestors.join(' ') || "'none'"}`);
+        }
+
+        return { verdict: reasons.length > 0 ? 'refused' : 'allowed', reasons };
+    }
+
+    private static classifyError(error: unknown): { kind: ProbeErrorKind; message: string } {
+        if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+            return { kind: 'timeout', message: 'Timed out waiting for the site' };
+        }
+
+        // Node's fetch wraps the socket error, which carries the useful code
+        const cause = error instanceof Error ? (error.cause as { code?: string; message?: string } | undefined) : undefined;
+        const code = cause?.code ?? '';
+        const message = cause?.message ?? (error instanceof Error ? error.message : String(error));
+
+        if (/CERT|TLS|SSL/i.test(code)) {
+            return { kind: 'tls', message: `${code}: ${message}` };
+        }
+        return { kind: 'network', message: code ? `${code}: ${message}` : message };
+    }
+}
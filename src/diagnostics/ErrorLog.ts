@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { ExtensionError } from '../errors/ExtensionError';
+
+export type ErrorSource = 'extension' | 'webview';
+
+export interface ErrorRecord {
+    timestamp: string;
+    source: ErrorSource;
+    name: string;
+    code: string;
+    message: string;
+    context?: Record<string, unknown>;
+    stack?: string;
+}
+
+/**
+ * Records errors as structured JSON in the "Take Your Time" log channel and keeps the most recent
+ * ones for the diagnostics export. Nothing is recorded while `enableErrorReporting` is off.
+ */
+export class ErrorLog implements vscode.Disposable {
+    private static readonly MAX_RECORDS = 200;
+
+    private readonly channel: vscode.LogOutputChannel;
+    private readonly records: ErrorRecord[] = [];
+
+    constructor(private readonly config: ExtensionConfig) {
+        this.channel = vscode.window.createOutputChannel('Take Your Time', { log: true });
+    }
+
+    /**
+     * Records an error thrown in the extension host. Errors that aren't `ExtensionError`s
+     * are recorded with the generic `EXTENSION_ERROR` code.
+     */
+    public record(error: unknown, context?: Record<string, unknown>): void {
+        const extensionError = error instanceof ExtensionError
+            ? error
+            : new ExtensionError(error instanceof Error ? error.message : String(error), { ...context, error });
+
+        const json = extensionError.toJSON();
+        this.add({
+            timestamp: new Date().toISOString(),
+            source: 'extension',
+            ...json,
+            context: error instanceof ExtensionError && context ? { ...json.context, ...context } : json.context,
+            stack: extensionError.stack
+        });
+    }
+
+    /**
+     * Records an error reported by a game webview's script
+     */
+    public recordWebviewError(message: string, context?: Record<string, unknown>, stack?: string): void {
+        this.add({
+            timestamp: new Date().toISOString(),
+            source: 'webview',
+            name: 'WebviewError',
+            code: 'WEBVIEW_ERROR',
+            message,
+            context,
+            stack
+        });
+    }
+
+    /**
+     * Gets the recorded errors, oldest first
+     */
+    public getRecords(): readonly ErrorRecord[] {
+        return this.records;
+    }
+
+    /**
+     * Writes a status line to the log channel, without keeping it for the diagnostics export
+     */
+    public info(message: string): void {
+        this.channel.info(message);
+    }
+
+    public show(): void {
+        this.channel.show(true);
+    }
+
+    private add(record: ErrorRecord): void {
+        if (!this.config.isErrorReportingEnabled()) {
+            return;
+        }
+
+        this.records.push(record);
+        if (this.records.length > ErrorLog.MAX_RECORDS) {
+            this.records.shift();
+        }
+
+        this.channel.error(JSON.stringify(record, ErrorLog.jsonReplacer));
+    }
+
+    /**
+     * Serializes nested `Error`s (e.g. in `context.error`), which JSON.stringify would turn into `{}`
+     */
+    static jsonReplacer(_key: string, value: unknown): unknown {
+        if (value instanceof Error) {
+            return { name: value.name, message: value.message, stack: value.stack };
+        }
+        return value;
+    }
+
+    public dispose(): void {
+        this.channel.dispose();
+    }
+}
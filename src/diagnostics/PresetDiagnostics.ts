@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig, GamePreset } from '../config/ExtensionConfig';
+import { BuiltinGames } from '../games/BuiltinGames';
+import { EmbedProbe, ProbeReport } from './EmbedProbe';
+
+/**
+ * Probes every configured game site and reports which ones can be played inside VS Code
+ */
+export class PresetDiagnostics implements vscode.Disposable {
+    private outputChannel: vscode.OutputChannel | undefined;
+
+    constructor(private readonly config: ExtensionConfig) { }
+
+    /**
+     * Probes all web presets, writes a report and offers to mark refusing sites as external
+     * @returns The probe report for each preset, in preset order
+     */
+    public async run(): Promise<ProbeReport[]> {
+        const presets = this.config.getGamePresets().filter(preset => !BuiltinGames.isBuiltinUrl(preset.url));
+        const output = this.getOutputChannel();
+
+        output.clear();
+        output.show(true);
+        output.appendLine(`Take Your Time preset diagnostics — ${new Date().toLocaleString()}`);
+        output.appendLine('');
+
+        const reports = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: 'Take Your Time: Checking game sites',
+                cancellable: false
+            },
+            async progress => {
+                const results: ProbeReport[] = [];
+                for (const preset of presets) {
+                    progress.report({ message: preset.name, increment: 100 / presets.length });
+                    const report = await EmbedProbe.probe(preset.url);
+                    this.writeReport(output, preset, report);
+                    results.push(report);
+                }
+                return results;
+            }
+        );
+
+        const mismatched = presets.filter((preset, index) =>
+            reports[index].verdict === 'refused' && preset.embed !== 'external'
+        );
+        output.appendLine(`${presets.length} site(s) checked, ${mismatched.length} should be marked external.`);
+
+        if (mismatched.length > 0) {
+            await this.offerMarkExternal(mismatched);
+        } else {
+            vscode.window.showInformationMessage('Take Your Time: All game sites are configured correctly.');
+        }
+
+        return reports;
+    }
+
+    private writeReport(output: vscode.OutputChannel, preset: GamePreset, report: ProbeReport): void {
+        const verdicts = {
+            allowed: '✔ can be embedded',
+            refused: '✖ refuses embedding',
+            unknown: '? could not be checked'
+        };
+
+        output.appendLine(`${preset.name} <${preset.url}>`);
+        output.appendLine(`  Result:    ${verdicts[report.verdict]} (configured as ${preset.embed})`);
+        if (report.status !== undefined) {
+            output.appendLine(`  Status:    HTTP ${report.status}`);
+        }
+        report.redirects.forEach(redirect => output.appendLine(`  Redirect:  → ${redirect}`));
+        report.reasons.forEach(reason => output.appendLine(`  Header:    ${reason}`));
+        if (report.error) {
+            output.appendLine(`  Error:     [${report.error.kind}] ${report.error.message}`);
+        }
+        output.appendLine('');
+    }
+
+    private async offerMarkExternal(presets: GamePreset[]): Promise<void> {
+        const names = presets.map(preset => preset.name).join(', ');
+        const selection = await vscode.window.showWarningMessage(
+            `Take Your Time: ${names} refuse${presets.length === 1 ? 's' : ''} to be embedded. Open ${presets.length === 1 ? 'it' : 'them'} in the browser instead?`,
+            'Mark as External',
+            'Show Report'
+        );
+
+        if (selection === 'Show Report') {
+            this.getOutputChannel().show();
+        } else if (selection === 'Mark as External') {
+            const urls = new Set(presets.map(preset => preset.url));
+            await this.config.updateGamePresets(games =>
+                games.map(game => urls.has(game.url) ? { ...game, embed: 'external' } : game)
+            );
+            vscode.window.showInformationMessage(`Take Your Time: Marked ${names} as external.`);
+        }
+    }
+
+    private getOutputChannel(): vscode.OutputChannel {
+        if (!this.outputChannel) {
+            this.outputChannel = vscode.window.createOutputChannel('Take Your Time Diagnostics');
+        }
+        return this.outputChannel;
+    }
+
+    public dispose(): void {
+        this.outputChannel?.dispose();
+    }
+}
@@ -0,0 +1,10 @@
+import { ExtensionError } from './ExtensionError';
+
+export class ProtocolError extends ExtensionError {
+    readonly code: string = 'PROTOCOL_ERROR';
+
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, context);
+        this.name = 'ProtocolError';
+    }
+}
@@ -1,16 +1,74 @@
 import * as vscode from 'vscode';
 import { TYTWebviewManager } from './webview/WebviewManager';
+import { WebviewPanelFactory } from './webview/WebviewPanelFactory';
+import { GamePanelSerializer } from './webview/GamePanelSerializer';
+import { ArcadeViewProvider } from './webview/ArcadeViewProvider';
+import { StatusBarController } from './statusbar/StatusBarController';
+import { PresetDiagnostics } from './diagnostics/PresetDiagnostics';
+import { ErrorLog } from './diagnostics/ErrorLog';
+import { DiagnosticsExporter } from './diagnostics/DiagnosticsExporter';
 import { ExtensionConfig } from './config/ExtensionConfig';
 import { CommandHandler } from './commands/CommandHandler';
+import { GameLibrary } from './games/GameLibrary';
+import { WorkspacePresets } from './config/WorkspacePresets';
+import { WaitHistory } from './stats/WaitHistory';
+import { BreakTimer } from './breaks/BreakTimer';
+import { PlayPolicy } from './breaks/PlayPolicy';
+import { StatsPanel } from './stats/StatsPanel';
 import { ExtensionError } from './errors/ExtensionError';
+import { TaskWatcher } from './watchers/TaskWatcher';
+import { TerminalWatcher } from './watchers/TerminalWatcher';
+import { WaitTracker } from './waits/WaitTracker';
+import { TakeYourTimeApi, createApi } from './api/TakeYourTimeApi';
+import { JobResult } from './types';
+
+export type { TakeYourTimeApi } from './api/TakeYourTimeApi';
+
+// Kept so deactivate() can close the game panels
+export function activate(context: vscode.ExtensionContext): TakeYourTimeApi {
+    let errorLog: ErrorLog | undefined;
 
-export function activate(context: vscode.ExtensionContext): void {
     try {
         const config = new ExtensionConfig();
-        const webviewManager = new TYTWebviewManager(context, config);
-        const commandHandler = new CommandHandler(webviewManager);
+        errorLog = new ErrorLog(config);
+        const log = errorLog;
+        context.subscriptions.push(log);
+        let reportedProblems = reportConfigurationProblems(config, log, new Set());
+
+        const gameLibrary = new GameLibrary(context.globalState);
+        const workspacePresets = new WorkspacePresets(config, log);
+        const breakTimer = new BreakTimer(config);
+        const playPolicy = new PlayPolicy(config, gameLibrary);
+        const webviewManager = new TYTWebviewManager(context, config, log, gameLibrary, breakTimer, playPolicy);
+        const waitTracker = new WaitTracker(webviewManager, log);
+        const waitHistory = new WaitHistory(context.globalState, waitTracker);
+        const statsPanel = new StatsPanel(config, gameLibrary, waitHistory, log);
+        const presetDiagnostics = new PresetDiagnostics(config);
+        const diagnosticsExporter = new DiagnosticsExporter(context, config, log, webviewManager, waitTracker);
+        const commandHandler = new CommandHandler(
+            webviewManager,
+            waitTracker,
+            config,
+            presetDiagnostics,
+            diagnosticsExporter,
+            gameLibrary,
+            statsPanel
+        );
 
-        const disposable = vscode.commands.registerCommand(
+        // Every command failure ends up in the error log
+        const registerCommand = <T extends unknown[]>(
+            commandId: string,
+            handler: (...args: T) => Promise<unknown>
+        ): vscode.Disposable => vscode.commands.registerCommand(commandId, async (...args: T) => {
+            try {
+                return await handler(...args);
+            } catch (error) {
+                log.record(error, { commandId });
+                throw error;
+            }
+        });
+
+        const disposable = registerCommand(
             'takeYourTime.openGame',
             () => {
                 return commandHandler.handleOpenGame();
@@ -18,14 +76,194 @@ export function activate(context: vscode.ExtensionContext): void {
         );
 
         context.subscriptions.push(disposable);
-        vscode.window.showInformationMessage('Take Your Time extension activated!');
+        context.subscriptions.push(
+            vscode.window.registerWebviewPanelSerializer(
+                WebviewPanelFactory.viewType,
+                new GamePanelSerializer(webviewManager, log)
+            ),
+            vscode.window.registerUriHandler({
+                handleUri: uri => commandHandler.handleUri(uri).catch(error => {
+                    log.record(error, { uri: uri.path });
+                })
+            }),
+            vscode.window.registerWebviewViewProvider(
+                ArcadeViewProvider.viewType,
+                new ArcadeViewProvider(context, webviewManager),
+                { webviewOptions: { retainContextWhenHidden: true } }
+            )
+        );
+        context.subscriptions.push(
+            registerCommand(
+                StatusBarController.menuCommand,
+                () => {
+                    return commandHandler.handleShowMenu();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.openGameWith',
+                () => {
+                    return commandHandler.handleOpenGameWith();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.addPreset',
+                () => {
+                    return commandHandler.handleAddPreset();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.removePreset',
+                () => {
+                    return commandHandler.handleRemovePreset();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.setDefaultGame',
+                () => {
+                    return commandHandler.handleSetDefaultGame();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.panic',
+                () => {
+                    return commandHandler.handlePanic();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.resume',
+                () => {
+                    return commandHandler.handleResume();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.showStats',
+                () => {
+                    return commandHandler.handleShowStats();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.importPresets',
+                () => {
+                    return commandHandler.handleImportPresets();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.exportPresets',
+                () => {
+                    return commandHandler.handleExportPresets();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.focusNextPanel',
+                () => {
+                    return commandHandler.handleFocusNextPanel();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.closeAllPanels',
+                () => {
+                    return commandHandler.handleCloseAllPanels();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.diagnosePresets',
+                () => {
+                    return commandHandler.handleDiagnosePresets();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.exportDiagnostics',
+                () => {
+                    return commandHandler.handleExportDiagnostics();
+                }
+            ),
+            registerCommand(
+                'takeYourTime.beginWait',
+                (label: string, options?: { estimatedMs?: number }) => {
+                    return commandHandler.handleBeginWait(label, options);
+                }
+            ),
+            registerCommand(
+                'takeYourTime.endWait',
+                (id: string, result?: JobResult, detail?: string) => {
+                    return commandHandler.handleEndWait(id, result, detail);
+                }
+            )
+        );
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('takeYourTime')) {
+                    config.reload();
+                    breakTimer.reload();
+                    webviewManager.enforcePlayPolicy();
+                    webviewManager.refreshSuspensions();
+                    reportedProblems = reportConfigurationProblems(config, log, reportedProblems);
+                    webviewManager.refreshPresets();
+                }
+            })
+        );
+        context.subscriptions.push(
+            webviewManager,
+            gameLibrary,
+            gameLibrary.onDidChange(() => webviewManager.refreshPresets()),
+            workspacePresets,
+            workspacePresets.onDidChange(() => webviewManager.refreshPresets()),
+            breakTimer,
+            breakTimer.onDidChange(() => webviewManager.refreshBreakTimer()),
+            playPolicy,
+            playPolicy.onDidChange(() => webviewManager.enforcePlayPolicy()),
+            vscode.window.onDidChangeWindowState(state => webviewManager.setWindowFocused(state.focused)),
+            waitTracker.onDidChangeWaitState(() => playPolicy.setWaiting(waitTracker.getActiveWaits().length > 0)),
+            waitTracker,
+            waitHistory,
+            statsPanel,
+            presetDiagnostics,
+            new TaskWatcher(waitTracker, config),
+            new TerminalWatcher(waitTracker, config),
+            new StatusBarController(webviewManager, waitTracker)
+        );
+        void workspacePresets.load();
+        log.info('Take Your Time extension activated');
+
+        return createApi(waitTracker, log);
     } catch (error) {
-        console.error('TYT: Extension activation failed:', error);
         vscode.window.showErrorMessage('Failed to activate Take Your Time extension');
-        throw new ExtensionError('Failed to activate extension', { error });
+        const activationError = new ExtensionError('Failed to activate extension', { error });
+        errorLog?.record(activationError);
+        throw activationError;
+    }
+}
+
+/**
+ * Logs the problems found in the settings and warns about the ones that weren't reported before
+ * @param reported Messages of the problems already shown
+ * @returns Messages of the current problems
+ */
+function reportConfigurationProblems(
+    config: ExtensionConfig,
+    errorLog: ErrorLog,
+    reported: ReadonlySet<string>
+): Set<string> {
+    const problems = config.getProblems();
+    const newProblems = problems.filter(problem => !reported.has(problem.message));
+    newProblems.forEach(problem => errorLog.record(problem));
+
+    if (newProblems.length > 0) {
+        const setting = newProblems[0].context?.setting;
+        const summary = newProblems.map(problem => problem.message).join('; ');
+        vscode.window.showWarningMessage(`Take Your Time: Invalid settings. ${summary}`, 'Open Settings')
+            .then(action => {
+                if (action === 'Open Settings') {
+                    // The settings search doesn't understand array indexes
+                    const query = typeof setting === 'string' ? setting.replace(/\[\d+\].*$/, '') : 'takeYourTime';
+                    vscode.commands.executeCommand('workbench.action.openSettings', query);
+                }
+            });
     }
+
+    return new Set(problems.map(problem => problem.message));
 }
 
 export function deactivate(): void {
-    // Cleanup if needed
+    // Everything is disposed through the context's subscriptions
 }
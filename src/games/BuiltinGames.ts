@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+
+export interface BuiltinGame {
+    id: string;
+    name: string;
+}
+
+/**
+ * Offline HTML5 games shipped in `media/games/<id>/index.html`.
+ * Presets refer to them with a `builtin:<id>` URL.
+ */
+export class BuiltinGames {
+    static readonly SCHEME = 'builtin:';
+
+    static readonly all: readonly BuiltinGame[] = [
+        { id: 'snake', name: 'Snake (offline)' },
+        { id: '2048', name: '2048 (offline)' },
+        { id: 'tetromino', name: 'Tetromino (offline)' },
+        { id: 'minesweeper', name: 'Minesweeper (offline)' }
+    ];
+
+    /**
+     * Checks whether a URL uses the built-in scheme, known game or not
+     */
+    static isBuiltinUrl(url: string): boolean {
+        return url.toLowerCase().startsWith(this.SCHEME);
+    }
+
+    /**
+     * Resolves a `builtin:<id>` URL to its game
+     */
+    static get(url: string): BuiltinGame | undefined {
+        if (!this.isBuiltinUrl(url)) {
+            return undefined;
+        }
+        const id = url.slice(this.SCHEME.length).toLowerCase();
+        return this.all.find(game => game.id === id);
+    }
+
+    static toUrl(game: BuiltinGame): string {
+        return `${this.SCHEME}${game.id}`;
+    }
+
+    /**
+     * Gets the on-disk entry point of a game, to be passed through `asWebviewUri`
+     */
+    static getEntryUri(extensionUri: vscode.Uri, game: BuiltinGame): vscode.Uri {
+        return vscode.Uri.joinPath(extensionUri, 'media', 'games', game.id, 'index.html');
+    }
+}
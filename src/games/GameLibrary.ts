@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import { GamePreset } from '../config/ExtensionConfig';
+
+/**
+ * One stretch of time a game was shown in a panel or the arcade view. Short pauses of the same game are merged
+ * into one session, so `durationMs` can be less than `endedAt - startedAt`.
+ */
+export interface PlaySession {
+    url: string;
+    startedAt: number;
+    endedAt: number;
+    durationMs: number;
+}
+
+/**
+ * Remembers the user's play history, recently played and favorite games across workspaces
+ */
+export class GameLibrary implements vscode.Disposable {
+    private static readonly RECENT_KEY = 'takeYourTime.recentGames';
+    private static readonly FAVORITES_KEY = 'takeYourTime.favoriteGames';
+    private static readonly HISTORY_KEY = 'takeYourTime.playHistory';
+    private static readonly MAX_RECENT = 5;
+    private static readonly MAX_HISTORY = 500;
+    private static readonly MERGE_GAP_MS = 5 * 60 * 1000;
+
+    private readonly activeSessions = new Set<{ url: string; startedAt: number }>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fires when the recent games or favorites change
+     */
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private readonly globalState: vscode.Memento) { }
+
+    /**
+     * Gets recently played game URLs, most recent first
+     */
+    public getRecent(): string[] {
+        return this.globalState.get<string[]>(GameLibrary.RECENT_KEY, []);
+    }
+
+    public getFavorites(): string[] {
+        return this.globalState.get<string[]>(GameLibrary.FAVORITES_KEY, []);
+    }
+
+    public isFavorite(url: string): boolean {
+        return this.getFavorites().includes(url);
+    }
+
+    /**
+     * Gets finished play sessions, oldest first
+     */
+    public getHistory(): PlaySession[] {
+        return this.globalState.get<PlaySession[]>(GameLibrary.HISTORY_KEY, []);
+    }
+
+    public async markPlayed(url: string): Promise<void> {
+        // Coming back to the same game changes nothing, so don't make every webview refresh its list
+        if (this.getRecent()[0] === url) {
+            return;
+        }
+        const recent = [url, ...this.getRecent().filter(recentUrl => recentUrl !== url)];
+        await this.globalState.update(GameLibrary.RECENT_KEY, recent.slice(0, GameLibrary.MAX_RECENT));
+        this.onDidChangeEmitter.fire();
+    }
+
+    /**
+     * Starts timing a game shown in a panel or the arcade view
+     * @returns Ends the session and adds it to the history; later calls do nothing
+     */
+    public startSession(url: string): () => void {
+        const session = { url, startedAt: Date.now() };
+        this.activeSessions.add(session);
+        void this.markPlayed(url);
+
+        return () => {
+            if (this.activeSessions.delete(session)) {
+                void this.recordSession(session.url, session.startedAt);
+            }
+        };
+    }
+
+    /**
+     * Sums the play time since a point in time, including sessions that are still running
+     */
+    public getPlayedMsSince(since: number, now: number = Date.now()): number {
+        const overlap = (startedAt: number, endedAt: number): number => Math.max(0, endedAt - Math.max(startedAt, since));
+        const finished = this.getHistory().reduce(
+            (total, session) => total + Math.min(session.durationMs, overlap(session.startedAt, session.endedAt)),
+            0
+        );
+        const running = Array.from(this.activeSessions).reduce((total, session) => total + overlap(session.startedAt, now), 0);
+        return finished + running;
+    }
+
+    /**
+     * Adds a finished session to the history, extending the last one when the same game was only briefly paused
+     */
+    public async recordSession(url: string, startedAt: number, endedAt: number = Date.now()): Promise<void> {
+        const durationMs = Math.max(0, endedAt - startedAt);
+        const history = this.getHistory();
+        const last = history[history.length - 1];
+
+        if (last && last.url === url && startedAt >= last.endedAt && startedAt - last.endedAt <= GameLibrary.MERGE_GAP_MS) {
+            history[history.length - 1] = { ...last, endedAt, durationMs: last.durationMs + durationMs };
+        } else {
+            history.push({ url, startedAt, endedAt, durationMs });
+        }
+        await this.globalState.update(GameLibrary.HISTORY_KEY, history.slice(-GameLibrary.MAX_HISTORY));
+    }
+
+    /**
+     * Stars or unstars a game
+     * @returns Whether the game is a favorite now
+     */
+    public async toggleFavorite(url: string): Promise<boolean> {
+        const favorites = this.getFavorites();
+        const isFavorite = !favorites.includes(url);
+        await this.globalState.update(
+            GameLibrary.FAVORITES_KEY,
+            isFavorite ? [...favorites, url] : favorites.filter(favorite => favorite !== url)
+        );
+        this.onDidChangeEmitter.fire();
+        return isFavorite;
+    }
+
+    /**
+     * Splits presets into favorites, recently played and the rest, each keeping its own order
+     */
+    public group(presets: GamePreset[]): { favorites: GamePreset[]; recent: GamePreset[]; others: GamePreset[] } {
+        const favoriteUrls = this.getFavorites();
+        const recentUrls = this.getRecent();
+
+        const favorites = presets.filter(preset => favoriteUrls.includes(preset.url));
+        const recent = recentUrls
+            .filter(url => !favoriteUrls.includes(url))
+            .map(url => presets.find(preset => preset.url === url))
+            .filter((preset): preset is GamePreset => preset !== undefined);
+        const others = presets.filter(preset => !favorites.includes(preset) && !recent.includes(preset));
+
+        return { favorites, recent, others };
+    }
+
+    /**
+     * Orders presets as favorites, then recently played games, then the rest
+     */
+    public sort(presets: GamePreset[]): GamePreset[] {
+        const { favorites, recent, others } = this.group(presets);
+        return [...favorites, ...recent, ...others];
+    }
+
+    public dispose(): void {
+        this.onDidChangeEmitter.dispose();
+    }
+}
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { z } from 'zod';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { GameLibrary } from '../games/GameLibrary';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { ProtocolError } from '../errors/ProtocolError';
+import { formatDuration } from '../utils/format';
+import { WaitHistory } from './WaitHistory';
+import { BreakStats, computeStats, toCsv } from './StatsReport';
+
+const StatsMessageSchema = z.object({
+    command: z.literal('export'),
+    format: z.enum(['csv', 'json'])
+});
+
+const escapeHtml = (unsafe: string): string => unsafe
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+
+/**
+ * Shows the local break statistics with bar charts and lets the user export the raw records
+ */
+export class StatsPanel implements vscode.Disposable {
+    static readonly viewType = 'takeYourTimeStats';
+
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(
+        private readonly config: ExtensionConfig,
+        private readonly gameLibrary: GameLibrary,
+        private readonly waitHistory: WaitHistory,
+        private readonly errorLog: ErrorLog
+    ) { }
+
+    /**
+     * Opens the report, or refreshes and reveals it if it is already open
+     */
+    public show(): void {
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                StatsPanel.viewType,
+                'Take Your Time: Statistics',
+                vscode.ViewColumn.Active,
+                { enableScripts: true, localResourceRoots: [] }
+            );
+            this.panel.webview.onDidReceiveMessage(raw => this.handleMessage(raw));
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        }
+
+        this.panel.webview.html = this.render(this.panel.webview, this.computeStats());
+        this.panel.reveal();
+    }
+
+    private computeStats(): BreakStats {
+        const gameNames = new Map(this.config.getGamePresets().map(preset => [preset.url, preset.name]));
+        return computeStats(this.gameLibrary.getHistory(), this.waitHistory.getRecords(), gameNames);
+    }
+
+    private async handleMessage(raw: unknown): Promise<void> {
+        const result = StatsMessageSchema.safeParse(raw);
+        if (!result.success) {
+            this.errorLog.record(new ProtocolError('Rejected statistics message', { issues: result.error.issues }));
+            return;
+        }
+
+        try {
+            await this.export(result.data.format);
+        } catch (error) {
+            this.errorLog.record(error, { statsExport: result.data.format });
+            vscode.window.showErrorMessage('Take Your Time: Failed to export statistics.');
+        }
+    }
+
+    private async export(format: 'csv' | 'json'): Promise<void> {
+        const date = new Date().toISOString().slice(0, 10);
+        const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.joinPath(defaultFolder, `take-your-time-stats-${date}.${format}`),
+            filters: format === 'csv' ? { CSV: ['csv'] } : { JSON: ['json'] },
+            title: 'Export Take Your Time Statistics'
+        });
+        if (!target) {
+            return;
+        }
+
+        const sessions = this.gameLibrary.getHistory();
+        const waits = this.waitHistory.getRecords();
+        const content = format === 'csv'
+            ? toCsv(sessions, waits)
+            : JSON.stringify({
+                generatedAt: new Date().toISOString(),
+                summary: this.computeStats(),
+                playSessions: sessions,
+                waits
+            }, null, 2);
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        vscode.window.showInformationMessage(`Take Your Time: Statistics saved to ${target.fsPath}`);
+    }
+
+    private render(webview: vscode.Webview, stats: BreakStats): string {
+        const nonce = Array.from({ length: 32 }, () => Math.floor(Math.random() * 36).toString(36)).join('');
+        const csp = [
+            `default-src 'none'`,
+            `script-src 'nonce-${nonce}'`,
+            `style-src 'unsafe-inline' ${webview.cspSource}`
+        ].join('; ');
+
+        const bars = (rows: { label: string; value: number; detail: string }[]): string => {
+            if (rows.length === 0) {
+                return '<p class="empty">Nothing recorded yet.</p>';
+            }
+            const max = Math.max(...rows.map(row => row.value), 1);
+            return rows.map(row => `
+                <div class="row">
+                    <span class="label" title="${escapeHtml(row.label)}">${escapeHtml(row.label)}</span>
+                    <span class="bar"><span style="width: ${Math.round((row.value / max) * 100)}%"></span></span>
+                    <span class="value">${escapeHtml(row.detail)}</span>
+                </div>`).join('');
+        };
+
+        const days = [...stats.days].reverse();
+        const maxDayMs = Math.max(...days.map(day => Math.max(day.playedMs, day.waitedMs)), 1);
+        const dayColumns = days.length === 0
+            ? '<p class="empty">Nothing recorded yet.</p>'
+            : `<div class="columns">${days.map(day => `
+                <div class="column" title="${day.date}: played ${formatDuration(day.playedMs)}, waited ${formatDuration(day.waitedMs)}">
+                    <div class="stack">
+                        <span class="waited" style="height: ${Math.round((day.waitedMs / maxDayMs) * 100)}%"></span>
+                        <span class="played" style="height: ${Math.round((day.playedMs / maxDayMs) * 100)}%"></span>
+                    </div>
+                    <span class="day">${day.date.slice(5)}</span>
+                </div>`).join('')}</div>
+                <p class="legend"><span class="played"></span> played <span class="waited"></span> waited</p>`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <title>Take Your Time: Statistics</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 16px 24px; }
+    h1 { font-size: 20px; font-weight: 500; }
+    h2 { font-size: 15px; font-weight: 600; margin-top: 28px; }
+    .totals { display: flex; gap: 32px; }
+    .total strong { display: block; font-size: 24px; }
+    .actions { margin: 16px 0; display: flex; gap: 8px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; border-radius: 2px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    .row { display: grid; grid-template-columns: 200px 1fr 140px; gap: 12px; align-items: center; margin: 6px 0; }
+    .label { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .bar { background: var(--vscode-editorWidget-background); height: 12px; border-radius: 2px; }
+    .bar span { display: block; height: 100%; background: var(--vscode-charts-blue); border-radius: 2px; }
+    .value { opacity: 0.8; font-size: 12px; }
+    .columns { display: flex; gap: 8px; align-items: flex-end; height: 160px; }
+    .column { display: flex; flex-direction: column; align-items: center; flex: 1; max-width: 48px; height: 100%; }
+    .stack { flex: 1; width: 100%; display: flex; gap: 2px; align-items: flex-end; }
+    .stack span { flex: 1; min-height: 1px; border-radius: 2px 2px 0 0; }
+    .played { background: var(--vscode-charts-blue); }
+    .waited { background: var(--vscode-charts-orange); }
+    .day { font-size: 11px; opacity: 0.7; margin-top: 4px; }
+    .legend span { display: inline-block; width: 10px; height: 10px; margin-left: 8px; }
+    .empty { opacity: 0.7; }
+  </style>
+</head>
+<body>
+  <h1>Break Statistics</h1>
+  <div class="totals">
+    <div class="total"><strong>${formatDuration(stats.totalPlayedMs)}</strong>played</div>
+    <div class="total"><strong>${formatDuration(stats.totalWaitedMs)}</strong>waited on tasks and commands</div>
+  </div>
+  <div class="actions">
+    <button data-format="csv">Export CSV</button>
+    <button data-format="json">Export JSON</button>
+  </div>
+  <p class="empty">Recorded on this machine only. Nothing is sent anywhere.</p>
+
+  <h2>Per day</h2>
+  ${dayColumns}
+
+  <h2>Per game</h2>
+  ${bars(stats.games.map(game => ({
+            label: game.name,
+            value: game.playedMs,
+            detail: `${formatDuration(game.playedMs)} · ${game.sessions} ${game.sessions === 1 ? 'session' : 'sessions'}`
+        })))}
+
+  <h2>Per task or command</h2>
+  ${bars(stats.triggers.map(trigger => ({
+            label: trigger.label,
+            value: trigger.waitedMs,
+            detail: `${formatDuration(trigger.waitedMs)} waited · ${formatDuration(trigger.playedMs)} played`
+        })))}
+
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-format]').forEach((button) => {
+      button.addEventListener('click', () => {
+        vscode.postMessage({ command: 'export', format: button.getAttribute('data-format') });
+      });
+    });
+  </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this.panel?.dispose();
+    }
+}
@@ -0,0 +1,123 @@
+import { PlaySession } from '../games/GameLibrary';
+import { WaitRecord } from './WaitHistory';
+
+export interface DayStats {
+    /** Local date as YYYY-MM-DD */
+    date: string;
+    playedMs: number;
+    waitedMs: number;
+}
+
+export interface GameStats {
+    url: string;
+    name: string;
+    playedMs: number;
+    sessions: number;
+}
+
+export interface TriggerStats {
+    label: string;
+    waits: number;
+    waitedMs: number;
+    /** Time spent playing during these waits */
+    playedMs: number;
+}
+
+export interface BreakStats {
+    totalPlayedMs: number;
+    totalWaitedMs: number;
+    days: DayStats[];
+    games: GameStats[];
+    triggers: TriggerStats[];
+}
+
+const toLocalDate = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const overlapMs = (session: PlaySession, wait: WaitRecord): number => Math.min(
+    session.durationMs,
+    Math.max(0, Math.min(session.endedAt, wait.endedAt) - Math.max(session.startedAt, wait.startedAt))
+);
+
+/**
+ * Sums play sessions and waits per day (most recent first, up to `maxDays`), per game and per
+ * triggering task or command
+ * @param gameNames Display names by game URL; other games are listed by URL
+ */
+export function computeStats(
+    sessions: PlaySession[],
+    waits: WaitRecord[],
+    gameNames: ReadonlyMap<string, string> = new Map(),
+    maxDays = 14
+): BreakStats {
+    const days = new Map<string, DayStats>();
+    const dayFor = (timestamp: number): DayStats => {
+        const date = toLocalDate(timestamp);
+        let day = days.get(date);
+        if (!day) {
+            day = { date, playedMs: 0, waitedMs: 0 };
+            days.set(date, day);
+        }
+        return day;
+    };
+
+    const games = new Map<string, GameStats>();
+    sessions.forEach(session => {
+        dayFor(session.startedAt).playedMs += session.durationMs;
+
+        const game = games.get(session.url)
+            ?? { url: session.url, name: gameNames.get(session.url) ?? session.url, playedMs: 0, sessions: 0 };
+        game.playedMs += session.durationMs;
+        game.sessions++;
+        games.set(session.url, game);
+    });
+
+    const triggers = new Map<string, TriggerStats>();
+    waits.forEach(wait => {
+        dayFor(wait.startedAt).waitedMs += wait.durationMs;
+
+        const trigger = triggers.get(wait.label) ?? { label: wait.label, waits: 0, waitedMs: 0, playedMs: 0 };
+        trigger.waits++;
+        trigger.waitedMs += wait.durationMs;
+        trigger.playedMs += sessions.reduce((total, session) => total + overlapMs(session, wait), 0);
+        triggers.set(wait.label, trigger);
+    });
+
+    return {
+        totalPlayedMs: sessions.reduce((total, session) => total + session.durationMs, 0),
+        totalWaitedMs: waits.reduce((total, wait) => total + wait.durationMs, 0),
+        days: Array.from(days.values())
+            .sort((a, b) => b.date.localeCompare(a.date))
+            .slice(0, maxDays),
+        games: Array.from(games.values()).sort((a, b) => b.playedMs - a.playedMs),
+        triggers: Array.from(triggers.values()).sort((a, b) => b.waitedMs - a.waitedMs)
+    };
+}
+
+const toCsvField = (value: string | number): string => {
+    // Spreadsheets run text starting with these as a formula, and wait labels come from tasks and callers
+    const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Lists every play session and wait as CSV, one row each
+ */
+export function toCsv(sessions: PlaySession[], waits: WaitRecord[]): string {
+    const header = ['type', 'name', 'source', 'result', 'startedAt', 'endedAt', 'durationMs'];
+    const rows = [
+        ...sessions.map(session => [
+            'play', session.url, '', '', new Date(session.startedAt).toISOString(),
+            new Date(session.endedAt).toISOString(), session.durationMs
+        ]),
+        ...waits.map(wait => [
+            'wait', wait.label, wait.source, wait.result, new Date(wait.startedAt).toISOString(),
+            new Date(wait.endedAt).toISOString(), wait.durationMs
+        ])
+    ];
+
+    return [header, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { WaitTracker } from '../waits/WaitTracker';
+import { JobResult, WaitSource } from '../types';
+
+/**
+ * A task, command or API wait that has ended
+ */
+export interface WaitRecord {
+    label: string;
+    source: WaitSource;
+    startedAt: number;
+    endedAt: number;
+    durationMs: number;
+    result: JobResult;
+}
+
+/**
+ * Keeps finished waits in `globalState` for the statistics report. Nothing leaves the machine.
+ */
+export class WaitHistory implements vscode.Disposable {
+    private static readonly HISTORY_KEY = 'takeYourTime.waitHistory';
+    private static readonly MAX_RECORDS = 500;
+
+    private readonly subscription: vscode.Disposable;
+
+    constructor(private readonly globalState: vscode.Memento, waitTracker: WaitTracker) {
+        this.subscription = waitTracker.onDidChangeWaitState(event => {
+            if (event.type !== 'ended') {
+                return;
+            }
+
+            const endedAt = Date.now();
+            void this.add({
+                label: event.session.label,
+                source: event.session.source,
+                startedAt: event.session.startedAt,
+                endedAt,
+                durationMs: Math.max(0, endedAt - event.session.startedAt),
+                result: event.result ?? 'unknown'
+            });
+        });
+    }
+
+    /**
+     * Gets finished waits, oldest first
+     */
+    public getRecords(): WaitRecord[] {
+        return this.globalState.get<WaitRecord[]>(WaitHistory.HISTORY_KEY, []);
+    }
+
+    private async add(record: WaitRecord): Promise<void> {
+        const records = [...this.getRecords(), record];
+        await this.globalState.update(WaitHistory.HISTORY_KEY, records.slice(-WaitHistory.MAX_RECORDS));
+    }
+
+    public dispose(): void {
+        this.subscription.dispose();
+    }
+}
@@ -0,0 +1,82 @@
+import * as vscode from 'vscode';
+import { TYTWebviewManager } from '../webview/WebviewManager';
+import { WaitTracker } from '../waits/WaitTracker';
+import { formatDuration } from '../utils/format';
+
+/**
+ * Shows open arcade panels and the current wait in the status bar
+ */
+export class StatusBarController implements vscode.Disposable {
+    static readonly menuCommand = 'takeYourTime.showMenu';
+
+    private readonly item: vscode.StatusBarItem;
+    private readonly disposables: vscode.Disposable[] = [];
+    private ticker: NodeJS.Timeout | undefined;
+
+    constructor(
+        private readonly webviewManager: TYTWebviewManager,
+        private readonly waitTracker: WaitTracker
+    ) {
+        this.item = vscode.window.createStatusBarItem('takeYourTime.status', vscode.StatusBarAlignment.Left, 100);
+        this.item.name = 'Take Your Time';
+        this.item.command = StatusBarController.menuCommand;
+
+        this.disposables.push(
+            this.item,
+            webviewManager.onDidChangePanels(() => this.update()),
+            waitTracker.onDidChangeWaitState(() => this.update())
+        );
+
+        this.update();
+        this.item.show();
+    }
+
+    private update(): void {
+        const panelCount = this.webviewManager.getActivePanels().length;
+        const waits = this.waitTracker.getActiveWaits();
+
+        let text = '$(game)';
+        if (panelCount > 0) {
+            text += ` ${panelCount}`;
+        }
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**Take Your Time**\n\n${panelCount} arcade panel${panelCount === 1 ? '' : 's'} open`);
+
+        if (waits.length > 0) {
+            // Show the longest running wait, the others are listed in the tooltip
+            const oldest = waits[0];
+            const now = Date.now();
+            text += ` $(watch) ${formatDuration(now - oldest.startedAt)}`;
+            if (waits.length > 1) {
+                text += ` (+${waits.length - 1})`;
+            }
+
+            tooltip.appendMarkdown('\n\nWaiting on:');
+            waits.forEach(wait => {
+                tooltip.appendMarkdown('\n- ');
+                tooltip.appendText(`${wait.label} (${formatDuration(now - wait.startedAt)})`);
+            });
+        }
+
+        tooltip.appendMarkdown('\n\nClick for arcade actions');
+
+        this.item.text = text;
+        this.item.tooltip = tooltip;
+        this.updateTicker(waits.length > 0);
+    }
+
+    private updateTicker(active: boolean): void {
+        if (active && !this.ticker) {
+            this.ticker = setInterval(() => this.update(), 1000);
+        } else if (!active && this.ticker) {
+            clearInterval(this.ticker);
+            this.ticker = undefined;
+        }
+    }
+
+    public dispose(): void {
+        this.updateTicker(false);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { BreakTimer, BreakTimerState } from '../../breaks/BreakTimer';
+import { ExtensionConfig } from '../../config/ExtensionConfig';
+
+suite('BreakTimer', () => {
+    const createTimer = (lengthMs: number, warningMs: number): BreakTimer => {
+        const config = {
+            getBreakTimerMs: () => lengthMs,
+            getBreakWarningMs: () => warningMs
+        } as unknown as ExtensionConfig;
+        return new BreakTimer(config);
+    };
+    const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+    test('Warns, then expires, and can be extended', async () => {
+        const timer = createTimer(60, 40);
+        const states: BreakTimerState[] = [];
+        timer.onDidChange(status => states.push(status.state));
+
+        timer.start();
+        timer.start();
+        assert.strictEqual(timer.getStatus().state, 'running');
+        assert.ok((timer.getStatus().remainingMs ?? 0) <= 60);
+
+        await sleep(120);
+        assert.deepStrictEqual(states, ['running', 'warning', 'expired']);
+        assert.strictEqual(timer.getStatus().remainingMs, undefined);
+
+        timer.extend(10000);
+        assert.strictEqual(timer.getStatus().state, 'running');
+
+        timer.stop();
+        assert.strictEqual(timer.getStatus().state, 'idle');
+        timer.dispose();
+    });
+
+    test('Does nothing while turned off', () => {
+        const timer = createTimer(0, 0);
+
+        timer.start();
+        assert.deepStrictEqual(timer.getStatus(), { state: 'idle' });
+        timer.dispose();
+    });
+
+    test('Pauses and resumes a countdown where it was', () => {
+        const timer = createTimer(60000, 1000);
+
+        timer.start();
+        const paused = timer.pause();
+        assert.strictEqual(paused.state, 'running');
+        assert.strictEqual(timer.getStatus().state, 'idle');
+
+        timer.resume(paused);
+        const remainingMs = timer.getStatus().remainingMs ?? 0;
+        assert.strictEqual(timer.getStatus().state, 'running');
+        assert.ok(remainingMs > 0 && remainingMs <= (paused.remainingMs ?? 0));
+
+        timer.resume({ state: 'expired' });
+        assert.strictEqual(timer.getStatus().state, 'expired');
+        timer.dispose();
+    });
+});
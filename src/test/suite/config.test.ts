@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../../config/ExtensionConfig';
+import { ConfigurationError } from '../../errors/ConfigurationError';
+
+suite('Extension Config', () => {
+    const settings = (): vscode.WorkspaceConfiguration => vscode.workspace.getConfiguration('takeYourTime');
+
+    teardown(async () => {
+        await settings().update('games', undefined, vscode.ConfigurationTarget.Global);
+        await settings().update('panelMode', undefined, vscode.ConfigurationTarget.Global);
+        await settings().update('terminalWatch.include', undefined, vscode.ConfigurationTarget.Global);
+        await settings().update('breakTimer.minutes', undefined, vscode.ConfigurationTarget.Global);
+        await settings().update('limits.dailyMinutes', undefined, vscode.ConfigurationTarget.Global);
+        await settings().update('limits.allowedHours', undefined, vscode.ConfigurationTarget.Global);
+    });
+
+    test('Keeps valid presets and reports invalid ones by index', async () => {
+        await settings().update('games', [
+            { name: 'Good', url: 'https://good.example.com/' },
+            { name: 'Bad', url: 'ftp://bad.example.com/' },
+            { url: 'builtin:snake' }
+        ], vscode.ConfigurationTarget.Global);
+
+        const config = new ExtensionConfig();
+        const urls = config.getGamePresets().map(preset => preset.url);
+        assert.ok(urls.includes('https://good.example.com/'));
+        assert.ok(!urls.includes('ftp://bad.example.com/'));
+
+        const problems = config.getProblems();
+        assert.strictEqual(problems.length, 2);
+        assert.ok(problems.every(problem => problem instanceof ConfigurationError));
+        assert.deepStrictEqual(problems.map(problem => problem.context?.index), [1, 2]);
+        assert.ok(problems[0].message.includes('takeYourTime.games[1]'));
+    });
+
+    test('Reads the panel mode and opens new panels in the active group by default', async () => {
+        assert.strictEqual(new ExtensionConfig().getPanelMode(), 'multiple');
+        assert.strictEqual(new ExtensionConfig().getPanelColumn(), 'active');
+
+        await settings().update('panelMode', 'single', vscode.ConfigurationTarget.Global);
+        assert.strictEqual(new ExtensionConfig().getPanelMode(), 'single');
+    });
+
+    test('Drops only the invalid entry of a setting and keeps the other settings', async () => {
+        await settings().update('terminalWatch.include', ['^npm ', '('], vscode.ConfigurationTarget.Global);
+        await settings().update('breakTimer.minutes', 25, vscode.ConfigurationTarget.Global);
+
+        const config = new ExtensionConfig();
+        assert.deepStrictEqual(config.getTerminalWatchInclude(), ['^npm ']);
+        assert.strictEqual(config.getBreakTimerMs(), 25 * 60 * 1000);
+
+        const problems = config.getProblems();
+        assert.strictEqual(problems.length, 1);
+        assert.ok(problems[0].message.startsWith('takeYourTime.terminalWatch.include[1]'));
+    });
+
+    test('Keeps the play limits when one allowed-hours entry is malformed', async () => {
+        await settings().update('limits.dailyMinutes', 45, vscode.ConfigurationTarget.Global);
+        await settings().update('limits.allowedHours', ['12:00-13:30', 'lunch'], vscode.ConfigurationTarget.Global);
+
+        const config = new ExtensionConfig();
+        assert.strictEqual(config.getDailyQuotaMs(), 45 * 60 * 1000);
+        assert.deepStrictEqual(config.getAllowedHours(), ['12:00-13:30']);
+        assert.deepStrictEqual(config.getProblems().map(problem => problem.context?.setting), ['takeYourTime.limits.allowedHours[1]']);
+    });
+
+    test('Adds workspace presets on top of the user list', async function () {
+        if (!vscode.workspace.workspaceFolders?.length) {
+            this.skip();
+        }
+        await settings().update('games', [{ name: 'Mine', url: 'https://mine.example.com/' }], vscode.ConfigurationTarget.Global);
+
+        try {
+            await new ExtensionConfig().updateGamePresets(
+                games => [...games, { name: 'Team', url: 'https://team.example.com/' }],
+                vscode.ConfigurationTarget.Workspace
+            );
+            const urls = settings().inspect<{ url: string }[]>('games')?.workspaceValue?.map(game => game.url);
+            assert.deepStrictEqual(urls, ['https://mine.example.com/', 'https://team.example.com/']);
+        } finally {
+            await settings().update('games', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+    });
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { redactText } from '../../diagnostics/DiagnosticsExporter';
+
+suite('Diagnostics', () => {
+    test('Redacts URLs down to their origin', () => {
+        assert.strictEqual(
+            redactText('{"gameUrl": "https://games.example.com/room/42?token=abc"}', '/nonexistent'),
+            '{"gameUrl": "https://games.example.com"}'
+        );
+    });
+
+    test('Redacts home directories, user names and e-mail addresses', () => {
+        assert.strictEqual(redactText('at /home/alice/project/file.ts', '/home/alice'), 'at ~/project/file.ts');
+        assert.strictEqual(redactText('at /Users/bob/x.js', '/nonexistent'), 'at /Users/<user>/x.js');
+        assert.strictEqual(redactText('by dev@example.com', '/nonexistent'), 'by <email>');
+    });
+});
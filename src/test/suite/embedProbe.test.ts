@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EmbedProbe } from '../../diagnostics/EmbedProbe';
+import { ErrorLog } from '../../diagnostics/ErrorLog';
+
+suite('EmbedProbe', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let requests = 0;
+
+    suiteSetup(async () => {
+        // Local stand-in for game sites with different framing policies
+        server = http.createServer((req, res) => {
+            requests++;
+            switch (req.url) {
+                case '/deny':
+                    res.writeHead(200, { 'X-Frame-Options': 'DENY' });
+                    break;
+                case '/ancestors':
+                    res.writeHead(200, { 'Content-Security-Policy': "default-src 'self'; frame-ancestors 'self' https://example.com" });
+                    break;
+                case '/moved':
+                    res.writeHead(302, { Location: '/deny' });
+                    break;
+                case '/missing':
+                    res.writeHead(404);
+                    break;
+                default:
+                    res.writeHead(200);
+            }
+            res.end('ok');
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    suiteTeardown(() => {
+        server.close();
+    });
+
+    test('Refuses sites that send X-Frame-Options', async () => {
+        const report = await EmbedProbe.probe(`${baseUrl}/deny`);
+        assert.strictEqual(report.verdict, 'refused');
+        assert.deepStrictEqual(report.reasons, ['X-Frame-Options: DENY']);
+    });
+
+    test('Refuses sites whose frame-ancestors exclude other origins', async () => {
+        const report = await EmbedProbe.probe(`${baseUrl}/ancestors`);
+        assert.strictEqual(report.verdict, 'refused');
+    });
+
+    test('Allows sites without framing restrictions', async () => {
+        const report = await EmbedProbe.probe(`${baseUrl}/`);
+        assert.strictEqual(report.verdict, 'allowed');
+        assert.strictEqual(report.status, 200);
+    });
+
+    test('Follows and reports redirects', async () => {
+        const report = await EmbedProbe.probe(`${baseUrl}/moved`);
+        assert.deepStrictEqual(report.redirects, [`${baseUrl}/deny`]);
+        assert.strictEqual(report.finalUrl, `${baseUrl}/deny`);
+        assert.strictEqual(report.verdict, 'refused');
+    });
+
+    test('Reports HTTP and network errors', async () => {
+        const missing = await EmbedProbe.probe(`${baseUrl}/missing`);
+        assert.strictEqual(missing.error?.kind, 'http');
+
+        const unreachable = await EmbedProbe.probe('http://127.0.0.1:1/');
+        assert.strictEqual(unreachable.error?.kind, 'network');
+        assert.strictEqual(unreachable.verdict, 'unknown');
+    });
+
+    test('Checks framing once per URL and records failures', async () => {
+        const recorded: unknown[] = [];
+        const errorLog = { record: (error: unknown) => recorded.push(error) } as unknown as ErrorLog;
+
+        const before = requests;
+        assert.strictEqual(await EmbedProbe.checkFraming(`${baseUrl}/deny`, errorLog), 'refused');
+        assert.strictEqual(await EmbedProbe.checkFraming(`${baseUrl}/deny`, errorLog), 'refused');
+        assert.strictEqual(requests - before, 1);
+
+        assert.strictEqual(await EmbedProbe.checkFraming('http://127.0.0.1:1/', errorLog), 'unknown');
+        assert.strictEqual(recorded.length, 1);
+    });
+});
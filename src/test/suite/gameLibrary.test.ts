@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { GameLibrary } from '../../games/GameLibrary';
+import { GamePreset } from '../../config/ExtensionConfig';
+
+suite('GameLibrary', () => {
+    const createLibrary = (): GameLibrary => {
+        const values = new Map<string, unknown>();
+        const memento = {
+            keys: () => Array.from(values.keys()),
+            get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+            update: async (key: string, value: unknown) => {
+                values.set(key, value);
+            }
+        } as vscode.Memento;
+        return new GameLibrary(memento);
+    };
+
+    const preset = (name: string): GamePreset => ({ name, url: `https://${name}.example.com/`, embed: 'iframe' });
+
+    test('Groups favorites, then recently played games, then the rest', async () => {
+        const library = createLibrary();
+        const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(preset);
+
+        await library.markPlayed(c.url);
+        await library.markPlayed(b.url);
+        await library.toggleFavorite(d.url);
+
+        const groups = library.group([a, b, c, d]);
+        assert.deepStrictEqual(groups.favorites, [d]);
+        assert.deepStrictEqual(groups.recent, [b, c]);
+        assert.deepStrictEqual(groups.others, [a]);
+    });
+
+    test('Toggles favorites and keeps recent games unique', async () => {
+        const library = createLibrary();
+
+        assert.strictEqual(await library.toggleFavorite('builtin:snake'), true);
+        assert.strictEqual(await library.toggleFavorite('builtin:snake'), false);
+        assert.deepStrictEqual(library.getFavorites(), []);
+
+        await library.markPlayed('builtin:snake');
+        await library.markPlayed('builtin:2048');
+        await library.markPlayed('builtin:snake');
+        assert.deepStrictEqual(library.getRecent(), ['builtin:snake', 'builtin:2048']);
+    });
+
+    test('Records play sessions with their length', async () => {
+        const library = createLibrary();
+
+        await library.recordSession('builtin:snake', 1000, 61000);
+        assert.deepStrictEqual(library.getHistory(), [
+            { url: 'builtin:snake', startedAt: 1000, endedAt: 61000, durationMs: 60000 }
+        ]);
+    });
+
+    test('Merges a briefly paused game into one session', async () => {
+        const library = createLibrary();
+
+        await library.recordSession('builtin:snake', 0, 60000);
+        await library.recordSession('builtin:snake', 120000, 180000);
+        await library.recordSession('builtin:2048', 190000, 200000);
+        await library.recordSession('builtin:2048', 2000000, 2010000);
+
+        assert.deepStrictEqual(library.getHistory(), [
+            { url: 'builtin:snake', startedAt: 0, endedAt: 180000, durationMs: 120000 },
+            { url: 'builtin:2048', startedAt: 190000, endedAt: 200000, durationMs: 10000 },
+            { url: 'builtin:2048', startedAt: 2000000, endedAt: 2010000, durationMs: 10000 }
+        ]);
+        assert.strictEqual(library.getPlayedMsSince(0, 2010000), 140000);
+    });
+});
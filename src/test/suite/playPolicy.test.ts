@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { PlayPolicy } from '../../breaks/PlayPolicy';
+import { ExtensionConfig } from '../../config/ExtensionConfig';
+import { GameLibrary } from '../../games/GameLibrary';
+import { ConfigurationError } from '../../errors/ConfigurationError';
+import { isInTimeWindow, parseTimeWindow } from '../../utils/schedule';
+
+suite('PlayPolicy', () => {
+    const createPolicy = (limits: { quotaMs?: number; allowedHours?: string[]; onlyWhileWaiting?: boolean }, playedMs = 0): PlayPolicy => {
+        const config = {
+            getDailyQuotaMs: () => limits.quotaMs ?? 0,
+            getAllowedHours: () => limits.allowedHours ?? [],
+            isOnlyWhileWaiting: () => limits.onlyWhileWaiting ?? false
+        } as unknown as ExtensionConfig;
+        const gameLibrary = { getPlayedMsSince: () => playedMs } as unknown as GameLibrary;
+        return new PlayPolicy(config, gameLibrary);
+    };
+    const at = (hour: number, minute = 0): Date => new Date(2026, 0, 5, hour, minute);
+
+    test('Parses time ranges, including ones past midnight', () => {
+        assert.deepStrictEqual(parseTimeWindow('12:00-13:30'), { startMinutes: 720, endMinutes: 810 });
+        assert.ok(isInTimeWindow(parseTimeWindow('22:00-02:00'), at(1)));
+        assert.ok(!isInTimeWindow(parseTimeWindow('22:00-02:00'), at(12)));
+
+        ['12:00', '25:00-26:00', '12:00-12:00', 'lunch'].forEach(text => {
+            assert.throws(() => parseTimeWindow(text), ConfigurationError);
+        });
+    });
+
+    test('Blocks games once the daily quota is used up', () => {
+        const policy = createPolicy({ quotaMs: 60000 }, 60000);
+        assert.strictEqual(policy.check(at(12))?.kind, 'quota');
+        policy.dispose();
+
+        const unused = createPolicy({ quotaMs: 60000 }, 1000);
+        assert.strictEqual(unused.check(at(12)), undefined);
+        unused.dispose();
+    });
+
+    test('Allows games in the allowed hours or while waiting', () => {
+        const policy = createPolicy({ allowedHours: ['12:00-13:00'], onlyWhileWaiting: true });
+
+        assert.strictEqual(policy.check(at(12, 30)), undefined);
+        assert.strictEqual(policy.check(at(15))?.kind, 'schedule');
+
+        policy.setWaiting(true);
+        assert.strictEqual(policy.check(at(15)), undefined);
+        policy.dispose();
+    });
+});
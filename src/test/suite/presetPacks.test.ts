@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { PresetPacks } from '../../config/PresetPacks';
+import { ConfigurationError } from '../../errors/ConfigurationError';
+
+suite('PresetPacks', () => {
+    test('Parses a valid pack and applies preset defaults', () => {
+        const pack = PresetPacks.parse(JSON.stringify({
+            version: 1,
+            name: 'Team Games',
+            presets: [{ name: 'Arcade', url: 'https://arcade.example.com/' }]
+        }), 'team.json');
+
+        assert.strictEqual(pack.name, 'Team Games');
+        assert.deepStrictEqual(pack.presets, [{ name: 'Arcade', url: 'https://arcade.example.com/', embed: 'iframe' }]);
+    });
+
+    test('Rejects malformed JSON and unsafe URLs', () => {
+        assert.throws(() => PresetPacks.parse('{', 'broken.json'), ConfigurationError);
+        assert.throws(
+            () => PresetPacks.parse(JSON.stringify({ version: 1, presets: [{ name: 'Bad', url: 'javascript:alert(1)' }] }), 'bad.json'),
+            (error: unknown) => error instanceof ConfigurationError && error.message.includes('presets.0.url')
+        );
+    });
+
+    test('Merges only presets with new URLs', () => {
+        const existing = [{ name: 'Arcade', url: 'https://arcade.example.com/' }];
+        const incoming = [
+            { name: 'Arcade again', url: 'https://arcade.example.com/', embed: 'iframe' as const },
+            { name: 'Puzzles', url: 'https://puzzles.example.com/', embed: 'iframe' as const },
+            { name: 'Puzzles again', url: 'https://puzzles.example.com/', embed: 'iframe' as const }
+        ];
+
+        const { games, added } = PresetPacks.merge(existing, incoming);
+        assert.deepStrictEqual(added.map(preset => preset.name), ['Puzzles']);
+        assert.deepStrictEqual(games.map(game => game.name), ['Arcade', 'Puzzles']);
+    });
+
+    test('Serialized packs parse back to the same presets', () => {
+        const presets = [
+            { name: 'Arcade', url: 'https://arcade.example.com/', category: 'Action', embed: 'external' as const, previewImage: 'media/arcade.png' }
+        ];
+
+        const pack = PresetPacks.parse(PresetPacks.serialize(presets, 'Team Games'), 'team.json');
+        assert.strictEqual(pack.version, 1);
+        assert.strictEqual(pack.name, 'Team Games');
+        assert.deepStrictEqual(pack.presets, presets);
+    });
+});
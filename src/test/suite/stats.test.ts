@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { computeStats, toCsv } from '../../stats/StatsReport';
+import { PlaySession } from '../../games/GameLibrary';
+import { WaitRecord } from '../../stats/WaitHistory';
+
+suite('Stats', () => {
+    const at = (day: number, hour: number, minute = 0): number => new Date(2026, 0, day, hour, minute).getTime();
+    const minutes = (count: number): number => count * 60 * 1000;
+
+    const sessions: PlaySession[] = [
+        { url: 'builtin:snake', startedAt: at(5, 10), endedAt: at(5, 10, 10), durationMs: minutes(10) },
+        { url: 'builtin:snake', startedAt: at(6, 9), endedAt: at(6, 9, 5), durationMs: minutes(5) },
+        { url: 'https://example.com/', startedAt: at(6, 14), endedAt: at(6, 14, 2), durationMs: minutes(2) }
+    ];
+    const waits: WaitRecord[] = [
+        { label: 'build', source: 'task', startedAt: at(5, 10, 5), endedAt: at(5, 10, 20), durationMs: minutes(15), result: 'success' },
+        { label: 'npm test', source: 'terminal', startedAt: at(6, 20), endedAt: at(6, 20, 1), durationMs: minutes(1), result: 'failure' }
+    ];
+
+    test('Sums time per day, per game and per trigger', () => {
+        const stats = computeStats(sessions, waits, new Map([['builtin:snake', 'Snake']]));
+
+        assert.strictEqual(stats.totalPlayedMs, minutes(17));
+        assert.strictEqual(stats.totalWaitedMs, minutes(16));
+        assert.deepStrictEqual(stats.days, [
+            { date: '2026-01-06', playedMs: minutes(7), waitedMs: minutes(1) },
+            { date: '2026-01-05', playedMs: minutes(10), waitedMs: minutes(15) }
+        ]);
+        assert.deepStrictEqual(stats.games.map(game => [game.name, game.playedMs, game.sessions]), [
+            ['Snake', minutes(15), 2],
+            ['https://example.com/', minutes(2), 1]
+        ]);
+        assert.deepStrictEqual(stats.triggers[0], { label: 'build', waits: 1, waitedMs: minutes(15), playedMs: minutes(5) });
+    });
+
+    test('Exports one CSV row per session and wait', () => {
+        const lines = toCsv(sessions.slice(0, 1), [{ ...waits[0], label: 'say "hi", then build' }]).trim().split('\r\n');
+
+        assert.strictEqual(lines[0], 'type,name,source,result,startedAt,endedAt,durationMs');
+        assert.ok(lines[1].startsWith('play,builtin:snake,,,'));
+        assert.ok(lines[2].startsWith('wait,"say ""hi"", then build",task,success,'));
+    });
+
+    test('Keeps spreadsheets from running CSV fields as formulas', () => {
+        const labels = ['=HYPERLINK("https://example.com")', '+1', '-1', '@SUM(A1)'];
+        const lines = toCsv([], labels.map(label => ({ ...waits[0], label }))).trim().split('\r\n');
+
+        assert.ok(lines[1].startsWith('wait,"\'=HYPERLINK(""https://example.com"")",'));
+        assert.ok(lines[2].startsWith("wait,'+1,"));
+        assert.ok(lines[3].startsWith("wait,'-1,"));
+        assert.ok(lines[4].startsWith("wait,'@SUM(A1),"));
+    });
+});
@@ -0,0 +1,20 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { matchesTask } from '../../watchers/TaskWatcher';
+
+suite('TaskWatcher', () => {
+    const makeTask = (name: string, group?: vscode.TaskGroup): vscode.Task =>
+        ({ name, group } as vscode.Task);
+
+    test('Matches tasks by group id', () => {
+        const task = makeTask('compile', vscode.TaskGroup.Build);
+        assert.ok(matchesTask(task, ['build']), 'Build group should match "build"');
+        assert.ok(!matchesTask(task, ['test']), 'Build group should not match "test"');
+    });
+
+    test('Matches tasks by label fragment, case-insensitively', () => {
+        const task = makeTask('npm: Test Watch');
+        assert.ok(matchesTask(task, ['test']), 'Label containing "Test" should match');
+        assert.ok(!matchesTask(task, ['lint', '  ']), 'Unrelated or blank patterns should not match');
+    });
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { matchesCommand } from '../../watchers/TerminalWatcher';
+
+suite('TerminalWatcher', () => {
+    test('Empty include list matches every command', () => {
+        assert.ok(matchesCommand('cargo test', [], []));
+    });
+
+    test('Include patterns restrict watched commands', () => {
+        assert.ok(matchesCommand('npm run build', ['^npm run', '^cargo'], []));
+        assert.ok(!matchesCommand('git status', ['^npm run', '^cargo'], []));
+    });
+
+    test('Exclude patterns win over include patterns', () => {
+        assert.ok(!matchesCommand('npm run watch', ['^npm run'], ['watch$']));
+    });
+});
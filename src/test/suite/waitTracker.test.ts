@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { WaitTracker } from '../../waits/WaitTracker';
+import { TYTWebviewManager } from '../../webview/WebviewManager';
+import { ErrorLog } from '../../diagnostics/ErrorLog';
+import { CommandError } from '../../errors/CommandError';
+import { JobSummary, WaitStateChangeEvent } from '../../types';
+
+suite('WaitTracker', () => {
+    const createTracker = (finished: JobSummary[] = []): WaitTracker => {
+        const manager = {
+            getActivePanels: () => [],
+            areGamesHidden: () => false,
+            notifyJobFinished: (job: JobSummary) => finished.push(job)
+        } as unknown as TYTWebviewManager;
+        const errorLog = { record: () => undefined } as unknown as ErrorLog;
+        return new WaitTracker(manager, errorLog);
+    };
+
+    test('Fires events when a wait begins and ends', () => {
+        const finished: JobSummary[] = [];
+        const tracker = createTracker(finished);
+        const events: WaitStateChangeEvent[] = [];
+        tracker.onDidChangeWaitState(event => events.push(event));
+
+        const session = tracker.begin('Agent run', { openGame: 'off' });
+        assert.strictEqual(tracker.getActiveWaits().length, 1);
+
+        tracker.end(session.id, { result: 'success' });
+        assert.deepStrictEqual(events.map(e => e.type), ['started', 'ended']);
+        assert.strictEqual(events[1].result, 'success');
+        assert.strictEqual(finished[0].name, 'Agent run');
+        assert.strictEqual(tracker.getActiveWaits().length, 0);
+
+        tracker.dispose();
+    });
+
+    test('Throws CommandError with a stable code for invalid calls', () => {
+        const tracker = createTracker();
+
+        assert.throws(() => tracker.begin('  '), (error: CommandError) =>
+            error.code === 'COMMAND_ERROR' && error.commandId === 'takeYourTime.beginWait');
+        assert.throws(() => tracker.end('missing'), (error: CommandError) =>
+            error.code === 'COMMAND_ERROR' && error.commandId === 'takeYourTime.endWait' && error.context?.waitId === 'missing');
+
+        tracker.dispose();
+    });
+});
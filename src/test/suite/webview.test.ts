@@ -30,4 +30,92 @@ suite('WebviewContentGenerator', () => {
         assert.ok(!html.includes('<script>alert(1)</script>'), 'Malicious script should be escaped');
         assert.ok(html.includes('&quot;&gt;&lt;script&gt;alert(1)&lt;/script&gt;'), 'Special characters should be escaped');
     });
+
+    test('Renders hidden job overlay above the game', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+        const gameUrl = 'https://onlinegames.io/';
+
+        const html = WebviewContentGenerator.generate(mockWebview, gameUrl, [{ name: 'Test', url: gameUrl }]);
+
+        assert.ok(html.includes('id="job-overlay" class="job-overlay hidden"'), 'Job overlay should start hidden');
+        assert.ok(html.includes('id="job-return-btn"'), 'Job overlay should offer a return button');
+    });
+
+    test('Loads built-in games from the extension media folder', () => {
+        const mockWebview = {
+            cspSource: 'mock-csp-source',
+            asWebviewUri: (uri: vscode.Uri) => uri.with({ scheme: 'https', authority: 'webview.test' })
+        } as unknown as vscode.Webview;
+        const extensionUri = vscode.Uri.file('/ext');
+        const html = WebviewContentGenerator.generate(mockWebview, 'builtin:snake', [], { extensionUri });
+
+        assert.ok(html.includes('src="https://webview.test/ext/media/games/snake/index.html"'), 'Iframe should load the bundled game');
+        assert.ok(html.includes('frame-src mock-csp-source'), 'CSP should allow framing local resources');
+        assert.ok(!html.includes('id="external-btn"'), 'Offline games have no browser version');
+    });
+
+    test('Saves the current game in webview state', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+        const gameUrl = 'https://playpager.com/?a=1&b=2';
+
+        const html = WebviewContentGenerator.generate(mockWebview, gameUrl, [{ name: 'Test', url: gameUrl }]);
+
+        assert.ok(html.includes(`const currentGameUrl = "${gameUrl}";`), 'Script should know the unescaped game URL');
+        assert.ok(html.includes('vscode.setState({ gameUrl: currentGameUrl'), 'Script should persist the current game');
+    });
+
+    test('Shows a preview card for external-only presets', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+        const gameUrl = 'https://games.example.com/';
+        const presets = [{
+            name: 'Team Games',
+            url: gameUrl,
+            embed: 'external' as const,
+            description: 'Needs a full browser'
+        }];
+
+        const html = WebviewContentGenerator.generate(mockWebview, gameUrl, presets, { previewImageSrc: 'data:image/png;base64,AAAA' });
+
+        assert.ok(!html.includes('<iframe'), 'External presets should not be framed');
+        assert.ok(html.includes("background-image: url('data:image/png;base64,AAAA')"), 'Preview image should be the card background');
+        assert.ok(html.includes('Team Games Preview'), 'Card should be titled after the preset');
+        assert.ok(html.includes('Needs a full browser'), 'Card should show the preset description');
+    });
+
+    test('Marks favorite games with a star', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+        const presets = [
+            { name: 'Snake', url: 'builtin:snake' },
+            { name: 'Sites', url: 'https://example.com/' }
+        ];
+
+        const html = WebviewContentGenerator.generate(mockWebview, 'builtin:snake', presets, undefined, {
+            favoriteUrls: ['builtin:snake']
+        });
+
+        assert.ok(html.includes('★ Snake</option>'), 'Favorites should be starred in the game list');
+        assert.ok(html.includes('>Sites</option>'), 'Other games should not be starred');
+        assert.ok(html.includes('id="favorite-btn" aria-pressed="true"'), 'Star button should show the current game is a favorite');
+    });
+
+    test('Hidden page has no game or script', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+
+        const html = WebviewContentGenerator.generateHidden(mockWebview);
+
+        assert.ok(!html.includes('<iframe'), 'Hidden page should not load a game');
+        assert.ok(!html.includes('<script'), 'Hidden page should not run scripts');
+    });
+
+    test('Renders a paused placeholder for suspended games', () => {
+        const mockWebview = { cspSource: 'mock-csp-source' } as vscode.Webview;
+        const presets = [{ name: 'Sites', url: 'https://example.com/' }];
+
+        const running = WebviewContentGenerator.generate(mockWebview, 'https://example.com/', presets);
+        const suspended = WebviewContentGenerator.generate(mockWebview, 'https://example.com/', presets, undefined, { suspended: true });
+
+        assert.ok(running.includes('id="suspended-placeholder" class="suspended hidden"'), 'Placeholder should start hidden');
+        assert.ok(running.includes('if (false) suspendGame();'), 'Running games should not start suspended');
+        assert.ok(suspended.includes('if (true) suspendGame();'), 'Suspended games should start on the placeholder');
+    });
 });
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { WebviewProtocol } from '../../webview/WebviewProtocol';
+import { ProtocolError } from '../../errors/ProtocolError';
+
+suite('Webview Protocol', () => {
+    test('Accepts known webview messages', () => {
+        const message = WebviewProtocol.parseWebviewMessage({
+            version: WebviewProtocol.VERSION,
+            id: 'req-1',
+            command: 'switchGame',
+            url: 'builtin:snake'
+        });
+        assert.strictEqual(message.command, 'switchGame');
+        assert.strictEqual(message.id, 'req-1');
+    });
+
+    test('Rejects unknown commands, other versions and malformed payloads', () => {
+        const rejected = [
+            { version: WebviewProtocol.VERSION, command: 'deleteEverything' },
+            { version: WebviewProtocol.VERSION + 1, command: 'switchGame', url: 'builtin:snake' },
+            { version: WebviewProtocol.VERSION, command: 'loadFailed', url: 'https://example.com/', reason: 'refused' },
+            'switchGame'
+        ];
+        rejected.forEach(raw => {
+            assert.throws(() => WebviewProtocol.parseWebviewMessage(raw), ProtocolError);
+        });
+    });
+
+    test('Stamps outgoing messages with the protocol version', () => {
+        const message = WebviewProtocol.createMessage({ command: 'response', requestId: 'req-1', ok: true });
+        assert.strictEqual(message.version, WebviewProtocol.VERSION);
+    });
+
+    test('Gets the request id of rejected messages', () => {
+        assert.strictEqual(WebviewProtocol.getRequestId({ command: 'nope', id: 'req-7' }), 'req-7');
+        assert.strictEqual(WebviewProtocol.getRequestId(null), undefined);
+    });
+});
@@ -8,3 +8,27 @@ export interface WebviewState {
     gameUrl: string;
     timestamp: number;
 }
+
+export type JobResult = 'success' | 'failure' | 'unknown';
+
+export interface JobSummary {
+    name: string;
+    result: JobResult;
+    detail: string;
+}
+
+export type WaitSource = 'api' | 'task' | 'terminal';
+
+export interface WaitSession {
+    id: string;
+    label: string;
+    source: WaitSource;
+    startedAt: number;
+    estimatedMs?: number;
+}
+
+export interface WaitStateChangeEvent {
+    type: 'started' | 'ended';
+    session: WaitSession;
+    result?: JobResult;
+}
@@ -0,0 +1,11 @@
+import { JobResult } from '../types';
+
+/**
+ * Maps a process exit code to a job result
+ */
+export function jobResultFromExitCode(exitCode: number | undefined): JobResult {
+    if (exitCode === undefined) {
+        return 'unknown';
+    }
+    return exitCode === 0 ? 'success' : 'failure';
+}
@@ -0,0 +1,44 @@
+import { ConfigurationError } from '../errors/ConfigurationError';
+
+/**
+ * A daily time range in minutes after midnight. Ranges that end before they start run past midnight.
+ */
+export interface TimeWindow {
+    startMinutes: number;
+    endMinutes: number;
+}
+
+const parseTime = (text: string): number | undefined => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+    if (!match) {
+        return undefined;
+    }
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    return hours <= 24 && minutes < 60 && hours * 60 + minutes <= 24 * 60 ? hours * 60 + minutes : undefined;
+};
+
+/**
+ * Parses a time range like "12:00-13:30"
+ * @throws ConfigurationError if the range is malformed
+ */
+export function parseTimeWindow(text: string): TimeWindow {
+    const [start, end, ...rest] = text.split('-');
+    const startMinutes = start === undefined ? undefined : parseTime(start);
+    const endMinutes = end === undefined ? undefined : parseTime(end);
+
+    if (rest.length > 0 || startMinutes === undefined || endMinutes === undefined || startMinutes === endMinutes) {
+        throw new ConfigurationError(`Invalid time range "${text}", expected e.g. "12:00-13:30"`, { window: text });
+    }
+    return { startMinutes, endMinutes };
+}
+
+/**
+ * Checks whether a time of day falls inside a window
+ */
+export function isInTimeWindow(window: TimeWindow, date: Date): boolean {
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    return window.startMinutes < window.endMinutes
+        ? minutes >= window.startMinutes && minutes < window.endMinutes
+        : minutes >= window.startMinutes || minutes < window.endMinutes;
+}
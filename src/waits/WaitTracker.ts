@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { TYTWebviewManager } from '../webview/WebviewManager';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { CommandError } from '../errors/CommandError';
+import { JobResult, WaitSession, WaitSource, WaitStateChangeEvent } from '../types';
+import { formatDuration } from '../utils/format';
+
+export type GameOfferMode = 'off' | 'prompt' | 'auto';
+
+export interface BeginWaitOptions {
+    estimatedMs?: number;
+    source?: WaitSource;
+    openGame?: GameOfferMode;
+}
+
+export interface EndWaitOptions {
+    result?: JobResult;
+    detail?: string;
+    returnToWork?: () => void;
+}
+
+const JOB_RESULTS: readonly JobResult[] = ['success', 'failure', 'unknown'];
+
+/**
+ * Tracks everything the user is currently waiting on (tasks, terminal commands, API callers)
+ * and opens or notifies game panels as waits start and end
+ */
+export class WaitTracker implements vscode.Disposable {
+    private readonly sessions: Map<string, WaitSession> = new Map();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<WaitStateChangeEvent>();
+    private waitCounter = 0;
+
+    public readonly onDidChangeWaitState = this.onDidChangeEmitter.event;
+
+    constructor(
+        private readonly webviewManager: TYTWebviewManager,
+        private readonly errorLog: ErrorLog
+    ) { }
+
+    /**
+     * Starts a new wait and offers a game according to `openGame`
+     * @returns The started session
+     */
+    public begin(label: string, options: BeginWaitOptions = {}): WaitSession {
+        if (typeof label !== 'string' || label.trim() === '') {
+            throw new CommandError('Wait label must be a non-empty string', 'takeYourTime.beginWait', { label });
+        }
+
+        const { estimatedMs } = options;
+        if (estimatedMs !== undefined && (typeof estimatedMs !== 'number' || !Number.isFinite(estimatedMs) || estimatedMs < 0)) {
+            throw new CommandError('estimatedMs must be a non-negative number', 'takeYourTime.beginWait', { estimatedMs });
+        }
+
+        this.waitCounter++;
+        const session: WaitSession = {
+            id: `tyt-wait-${this.waitCounter}`,
+            label: label.trim(),
+            source: options.source ?? 'api',
+            startedAt: Date.now(),
+            estimatedMs
+        };
+
+        this.sessions.set(session.id, session);
+        this.onDidChangeEmitter.fire({ type: 'started', session });
+        this.offerGame(session, options.openGame ?? 'prompt');
+
+        return session;
+    }
+
+    /**
+     * Ends a wait and shows the "back to work" overlay in open panels
+     * @returns The ended session
+     */
+    public end(id: string, options: EndWaitOptions = {}): WaitSession {
+        const session = this.sessions.get(id);
+        if (!session) {
+            throw new CommandError(`No active wait with id "${id}"`, 'takeYourTime.endWait', { waitId: id });
+        }
+
+        const result = options.result ?? 'unknown';
+        if (!JOB_RESULTS.includes(result)) {
+            throw new CommandError(`Invalid wait result "${String(result)}"`, 'takeYourTime.endWait', { waitId: id, result });
+        }
+
+        this.sessions.delete(id);
+        this.onDidChangeEmitter.fire({ type: 'ended', session, result });
+
+        const duration = formatDuration(Date.now() - session.startedAt);
+        this.webviewManager.notifyJobFinished(
+            {
+                name: session.label,
+                result,
+                detail: options.detail ?? `Finished after ${duration}.`
+            },
+            options.returnToWork ?? ((): void => {
+                vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup');
+            })
+        );
+
+        return session;
+    }
+
+    /**
+     * Gets all waits that have not ended yet, oldest first
+     */
+    public getActiveWaits(): WaitSession[] {
+        return Array.from(this.sessions.values());
+    }
+
+    public isActive(id: string): boolean {
+        return this.sessions.has(id);
+    }
+
+    private offerGame(session: WaitSession, mode: GameOfferMode): void {
+        // Don't stack panels if the user is already playing, and don't undo the boss key
+        if (mode === 'off' || this.webviewManager.getActivePanels().length > 0 || this.webviewManager.areGamesHidden()) {
+            return;
+        }
+
+        if (mode === 'auto') {
+            this.openGame();
+            return;
+        }
+
+        const estimate = session.estimatedMs !== undefined
+            ? ` (about ${formatDuration(session.estimatedMs)})`
+            : '';
+
+        vscode.window.showInformationMessage(
+            `"${session.label}" is running${estimate}. Take your time?`,
+            'Open Game'
+        ).then(selection => {
+            if (selection === 'Open Game' && this.sessions.has(session.id)) {
+                this.openGame();
+            }
+        });
+    }
+
+    private openGame(): void {
+        try {
+            this.webviewManager.openGamePanel(undefined, true);
+        } catch (error) {
+            this.errorLog.record(error, { openGameForWait: true });
+        }
+    }
+
+    public dispose(): void {
+        this.sessions.clear();
+        this.onDidChangeEmitter.dispose();
+    }
+}
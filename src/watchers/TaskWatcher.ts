@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { WaitTracker } from '../waits/WaitTracker';
+import { formatDuration } from '../utils/format';
+import { jobResultFromExitCode } from '../utils/jobs';
+
+/**
+ * Checks whether a task matches one of the configured patterns.
+ * A pattern matches the task group (e.g. `build`, `test`) exactly or appears in the task name.
+ */
+export function matchesTask(task: vscode.Task, patterns: string[]): boolean {
+    const name = task.name.toLowerCase();
+    const groupId = task.group?.id.toLowerCase();
+
+    return patterns.some(pattern => {
+        const normalized = pattern.trim().toLowerCase();
+        if (!normalized) {
+            return false;
+        }
+        return normalized === groupId || name.includes(normalized);
+    });
+}
+
+/**
+ * Watches VS Code tasks and offers a game while matching tasks are running
+ */
+export class TaskWatcher implements vscode.Disposable {
+    private readonly running: Map<vscode.TaskExecution, string> = new Map();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly waitTracker: WaitTracker,
+        private readonly config: ExtensionConfig
+    ) {
+        this.disposables.push(
+            vscode.tasks.onDidStartTaskProcess(event => this.handleStart(event)),
+            vscode.tasks.onDidEndTaskProcess(event => this.handleEnd(event))
+        );
+    }
+
+    private handleStart(event: vscode.TaskProcessStartEvent): void {
+        const mode = this.config.getTaskWatchMode();
+        const task = event.execution.task;
+
+        if (mode === 'off' || !matchesTask(task, this.config.getTaskWatchPatterns())) {
+            return;
+        }
+
+        const session = this.waitTracker.begin(task.name, { source: 'task', openGame: mode });
+        this.running.set(event.execution, session.id);
+    }
+
+    private handleEnd(event: vscode.TaskProcessEndEvent): void {
+        const waitId = this.running.get(event.execution);
+        if (waitId === undefined) {
+            return;
+        }
+        this.running.delete(event.execution);
+
+        const task = event.execution.task;
+        const exitCode = event.exitCode ?? 'unknown';
+        const session = this.waitTracker.end(waitId, {
+            result: jobResultFromExitCode(event.exitCode),
+            detail: `Finished with exit code ${exitCode}.`,
+            returnToWork: () => this.showTaskOutput(task)
+        });
+
+        const duration = formatDuration(Date.now() - session.startedAt);
+        const message = `Task "${task.name}" finished with exit code ${exitCode} after ${duration}.`;
+
+        const notify = event.exitCode === 0
+            ? vscode.window.showInformationMessage
+            : vscode.window.showWarningMessage;
+
+        notify(message, 'Show Output').then(selection => {
+            if (selection === 'Show Output') {
+                this.showTaskOutput(task);
+            }
+        });
+    }
+
+    private showTaskOutput(task: vscode.Task): void {
+        const terminal = vscode.window.terminals.find(t =>
+            t.name === task.name || t.name.endsWith(task.name)
+        );
+
+        if (terminal) {
+            terminal.show();
+        } else {
+            vscode.commands.executeCommand('workbench.action.terminal.focus');
+        }
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.running.clear();
+    }
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ExtensionConfig } from '../config/ExtensionConfig';
+import { WaitTracker } from '../waits/WaitTracker';
+import { formatDuration } from '../utils/format';
+import { jobResultFromExitCode } from '../utils/jobs';
+
+interface TrackedCommand {
+    commandLine: string;
+    startedAt: number;
+    timer: NodeJS.Timeout;
+    waitId?: string;
+}
+
+/**
+ * Checks a command line against include/exclude regular expressions.
+ * An empty include list matches every command; excludes always win.
+ */
+export function matchesCommand(commandLine: string, include: string[], exclude: string[]): boolean {
+    const test = (pattern: string): boolean => new RegExp(pattern, 'i').test(commandLine);
+
+    if (include.length > 0 && !include.some(test)) {
+        return false;
+    }
+    return !exclude.some(test);
+}
+
+/**
+ * Watches terminal commands through shell integration and suggests a game when they run long
+ */
+export class TerminalWatcher implements vscode.Disposable {
+    private readonly running: Map<vscode.TerminalShellExecution, TrackedCommand> = new Map();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly waitTracker: WaitTracker,
+        private readonly config: ExtensionConfig
+    ) {
+        this.disposables.push(
+            vscode.window.onDidStartTerminalShellExecution(event => this.handleStart(event)),
+            vscode.window.onDidEndTerminalShellExecution(event => this.handleEnd(event))
+        );
+    }
+
+    private handleStart(event: vscode.TerminalShellExecutionStartEvent): void {
+        if (!this.config.isTerminalWatchEnabled()) {
+            return;
+        }
+
+        const commandLine = event.execution.commandLine.value.trim();
+        if (!commandLine || !matchesCommand(
+            commandLine,
+            this.config.getTerminalWatchInclude(),
+            this.config.getTerminalWatchExclude()
+        )) {
+            return;
+        }
+
+        const execution = event.execution;
+        const timer = setTimeout(
+            () => this.handleThresholdReached(execution),
+            this.config.getTerminalWatchThresholdMs()
+        );
+
+        this.running.set(execution, {
+            commandLine,
+            startedAt: Date.now(),
+            timer
+        });
+    }
+
+    private handleThresholdReached(execution: vscode.TerminalShellExecution): void {
+        const tracked = this.running.get(execution);
+        if (!tracked) {
+            return;
+        }
+
+        const session = this.waitTracker.begin(tracked.commandLine, { source: 'terminal', openGame: 'prompt' });
+        tracked.waitId = session.id;
+    }
+
+    private handleEnd(event: vscode.TerminalShellExecutionEndEvent): void {
+        const tracked = this.running.get(event.execution);
+        if (!tracked) {
+            return;
+        }
+        clearTimeout(tracked.timer);
+        this.running.delete(event.execution);
+
+        if (!tracked.waitId) {
+            return;
+        }
+
+        const exitCode = event.exitCode ?? 'unknown';
+        const duration = formatDuration(Date.now() - tracked.startedAt);
+        const terminal = event.terminal;
+        this.waitTracker.end(tracked.waitId, {
+            result: jobResultFromExitCode(event.exitCode),
+            detail: `Your command finished (exit ${exitCode}) after ${duration}.`,
+            returnToWork: () => terminal.show()
+        });
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.running.forEach(tracked => clearTimeout(tracked.timer));
+        this.running.clear();
+    }
+}
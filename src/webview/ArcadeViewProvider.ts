@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { TYTWebviewManager } from './WebviewManager';
+import { WebviewPanelFactory } from './WebviewPanelFactory';
+import { WebviewState } from '../types';
+
+/**
+ * Hosts the arcade in a sidebar view so it can sit next to the code being waited on
+ */
+export class ArcadeViewProvider implements vscode.WebviewViewProvider {
+    static readonly viewType = 'takeYourTime.arcadeView';
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly webviewManager: TYTWebviewManager
+    ) { }
+
+    resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        context: vscode.WebviewViewResolveContext<WebviewState>,
+        _token: vscode.CancellationToken
+    ): void {
+        webviewView.webview.options = WebviewPanelFactory.getWebviewOptions(this.context);
+        this.webviewManager.attachView(webviewView, context.state);
+    }
+}
@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { TYTWebviewManager } from './WebviewManager';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { WebviewState } from '../types';
+
+/**
+ * Revives game panels after a window reload with the game they were showing
+ */
+export class GamePanelSerializer implements vscode.WebviewPanelSerializer<WebviewState> {
+    constructor(
+        private readonly webviewManager: TYTWebviewManager,
+        private readonly errorLog: ErrorLog
+    ) { }
+
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: WebviewState | undefined): Promise<void> {
+        try {
+            this.webviewManager.restoreGamePanel(panel, state);
+        } catch (error) {
+            this.errorLog.record(error, { restoredGameUrl: state?.gameUrl });
+            panel.dispose();
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationError } from '../errors/ConfigurationError';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+
+const MAX_INLINE_BYTES = 2 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml'
+};
+
+/**
+ * Resolves preset preview images to something a game webview can display
+ */
+export class PreviewImages {
+    /**
+     * Resolves a preview image path. Paths are relative and looked up in the workspace folders first,
+     * then in the extension; anything outside those folders is refused. Extension images are served
+     * through `asWebviewUri`; workspace images are inlined as a data URI so the webview doesn't need
+     * access to the workspace.
+     */
+    static async resolve(webview: vscode.Webview, extensionUri: vscode.Uri, imagePath: string, errorLog: ErrorLog): Promise<string | undefined> {
+        // Presets can come from workspace settings and packs, so they mustn't reach arbitrary files
+        if (path.posix.isAbsolute(imagePath) || path.win32.isAbsolute(imagePath) || imagePath.split(/[\\/]/).includes('..')) {
+            errorLog.record(new ConfigurationError('Preview image must be a path inside the workspace or extension folder', { previewImage: imagePath }));
+            return undefined;
+        }
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const dataUri = await this.toDataUri(vscode.Uri.joinPath(folder.uri, imagePath));
+            if (dataUri) {
+                return dataUri;
+            }
+        }
+
+        const extensionImage = vscode.Uri.joinPath(extensionUri, imagePath);
+        if (await this.stat(extensionImage)) {
+            return webview.asWebviewUri(extensionImage).toString();
+        }
+
+        errorLog.record(new ConfigurationError('Preview image not found', { previewImage: imagePath }));
+        return undefined;
+    }
+
+    private static async toDataUri(uri: vscode.Uri): Promise<string | undefined> {
+        const mimeType = MIME_TYPES[path.extname(uri.path).toLowerCase()];
+        if (!mimeType) {
+            return undefined;
+        }
+
+        const stat = await this.stat(uri);
+        if (!stat || stat.size > MAX_INLINE_BYTES) {
+            return undefined;
+        }
+
+        try {
+            const bytes = await vscode.workspace.fs.readFile(uri);
+            return `data:${mimeType};base64,${Buffer.from(bytes).toString('base64')}`;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Gets a file's stat, or `undefined` when it's missing or not a regular file
+     */
+    private static async stat(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            return stat.type & vscode.FileType.File ? stat : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -1,36 +1,94 @@
 import * as vscode from 'vscode';
+import { BuiltinGames } from '../games/BuiltinGames';
+import { GamePresetInput } from '../config/ExtensionConfig';
+import { JobFinishedMessage, WebviewProtocol } from './WebviewProtocol';
+import { BreakTimerStatus } from '../breaks/BreakTimer';
+import { PlayDenial } from '../breaks/PlayPolicy';
 
 export class WebviewContentGenerator {
+  /**
+   * Checks whether a game is shown in the iframe rather than as an external-browser card.
+   * Games that aren't presets are framed.
+   */
+  static rendersInFrame(gameUrl: string, gamePresets: GamePresetInput[]): boolean {
+    if (BuiltinGames.get(gameUrl)) {
+      return true;
+    }
+    return this.findPreset(gameUrl, gamePresets)?.embed !== 'external';
+  }
+
+  private static findPreset(gameUrl: string, gamePresets: GamePresetInput[]): GamePresetInput | undefined {
+    return gamePresets.find(preset => preset.url === gameUrl);
+  }
+
   /**
    * Generates HTML content for the webview
+   * @param resources.previewImageSrc Webview-loadable preview image for external-only games
+   * @param renderOptions.unavailableReason Shows a "site unavailable" page with retry instead of the game
+   * @param renderOptions.playDenial Shows why games are blocked (quota or schedule) instead of the game
+   * @param renderOptions.favoriteUrls Games marked with a star in the game list
+   * @param renderOptions.breakTimer Break countdown to resume, so reloads don't reset it
+   * @param renderOptions.suspended Starts with the game swapped for the paused placeholder
+   * @param renderOptions.pendingJob Starts with the "back to work" overlay of a finished job shown
    */
-  static generate(webview: vscode.Webview, gameUrl: string, gamePresets: { name: string, url: string }[], resources?: { smbBg: vscode.Uri, crazyGamesBg: vscode.Uri }): string {
+  static generate(webview: vscode.Webview, gameUrl: string, gamePresets: GamePresetInput[], resources?: { extensionUri?: vscode.Uri, previewImageSrc?: string }, renderOptions?: { unavailableReason?: string, playDenial?: PlayDenial, favoriteUrls?: string[], breakTimer?: BreakTimerStatus, suspended?: boolean, pendingJob?: JobFinishedMessage }): string {
     const nonce = this.getNonce();
     const csp = this.generateCSP(webview, nonce);
 
-    const normalizedUrl = gameUrl.toLowerCase();
-    const isSmbGame = normalizedUrl.includes('smbgames.be') || normalizedUrl.includes('mario');
-    const isCrazyGame = normalizedUrl.includes('crazygames.com');
-    const isBlocked = isSmbGame || isCrazyGame;
+    const preset = this.findPreset(gameUrl, gamePresets);
+    const builtinGame = BuiltinGames.get(gameUrl);
+    const isBlocked = !this.rendersInFrame(gameUrl, gamePresets);
+
+    // Bundled games are served from the extension's media folder
+    const frameSrc = builtinGame && resources?.extensionUri
+      ? webview.asWebviewUri(BuiltinGames.getEntryUri(resources.extensionUri, builtinGame)).toString()
+      : gameUrl;
 
     // Generate options for the dropdown
+    const favoriteUrls = renderOptions?.favoriteUrls ?? [];
+    const isFavorite = favoriteUrls.includes(gameUrl);
     const options = gamePresets.map(preset =>
-      `<option value="${this.escapeHtml(preset.url)}" ${preset.url === gameUrl ? 'selected' : ''}>${this.escapeHtml(preset.name)}</option>`
+      `<option value="${this.escapeHtml(preset.url)}" ${preset.url === gameUrl ? 'selected' : ''}>${favoriteUrls.includes(preset.url) ? '★ ' : ''}${this.escapeHtml(preset.name)}</option>`
     ).join('');
 
     let mainContent = '';
 
-    if (isBlocked) {
-      let bgUri = '';
-      let titleText = 'External Browser Required';
-
-      if (isSmbGame && resources?.smbBg) {
-        bgUri = webview.asWebviewUri(resources.smbBg).toString();
-        titleText = 'Mario Games Preview';
-      } else if (isCrazyGame && resources?.crazyGamesBg) {
-        bgUri = webview.asWebviewUri(resources.crazyGamesBg).toString();
-        titleText = 'CrazyGames Preview';
-      }
+    if (renderOptions?.playDenial) {
+      mainContent = `
+        <div class="blocked-container" style="background-color: #1e1e1e;">
+            <div class="blocked-overlay">
+                <div class="blocked-content" id="play-denied">
+                    <div class="blocked-icon">${renderOptions.playDenial.kind === 'quota' ? '⌛' : '🕒'}</div>
+                    <h2>${this.escapeHtml(renderOptions.playDenial.title)}</h2>
+                    <p>${this.escapeHtml(renderOptions.playDenial.message)}</p>
+                    <button class="btn-primary" id="retry-btn">🔄 Check again</button>
+                </div>
+            </div>
+        </div>`;
+    } else if (renderOptions?.unavailableReason) {
+      mainContent = `
+        <div class="blocked-container" style="background-color: #1e1e1e;">
+            <div class="blocked-overlay">
+                <div class="blocked-content">
+                    <div class="blocked-icon">📡</div>
+                    <h2>Game Unavailable</h2>
+                    <p>This game ${this.escapeHtml(renderOptions.unavailableReason)}.</p>
+                    <div class="job-actions">
+                        <button class="btn-primary" id="retry-btn">🔄 Retry</button>
+                        ${builtinGame ? '' : `<button class="btn-primary" data-url="${this.escapeHtml(gameUrl)}">🚀 Open in Browser</button>`}
+                    </div>
+                    <div style="margin-top: 10px; font-size: 0.8em; opacity: 0.7">
+                        ${this.escapeHtml(gameUrl)}
+                    </div>
+                </div>
+            </div>
+        </div>`;
+    } else if (isBlocked) {
+      const bgUri = resources?.previewImageSrc ? this.escapeHtml(resources.previewImageSrc) : '';
+      const titleText = bgUri && preset
+        ? `${this.escapeHtml(preset.name)} Preview`
+        : 'External Browser Required';
+      const description = preset?.description ?? 'This game website cannot be played directly inside VS Code.';
 
       const bgStyle = bgUri ? `
             background-image: url('${bgUri}'); 
@@ -46,7 +104,7 @@ export class WebviewContentGenerator {
                 <div class="blocked-content">
                     <div class="blocked-icon">⚠️</div>
                     <h2>${titleText}</h2>
-                    <p>This game website cannot be played directly inside VS Code.</p>
+                    <p>${this.escapeHtml(description)}</p>
                     <button class="btn-primary" data-url="${this.escapeHtml(gameUrl)}">
                         🚀 Open in Browser
                     </button>
@@ -60,11 +118,16 @@ export class WebviewContentGenerator {
       mainContent = `
         <iframe 
           id="game-frame"
-          src="${this.escapeHtml(gameUrl)}" 
+          src="${this.escapeHtml(frameSrc)}" 
           frameborder="0" 
           allowfullscreen
           sandbox="allow-scripts allow-same-origin allow-forms allow-popups"
         ></iframe>
+
+        <div id="suspended-placeholder" class="suspended hidden">
+          <div class="blocked-icon">⏸</div>
+          <p>Paused while you're away. Come back to keep playing.</p>
+        </div>
         
         <div id="loading-overlay">
           <div class="loader"></div>
@@ -147,29 +210,71 @@ export class WebviewContentGenerator {
       </select>
     </div>
     <div class="actions">
+      <span id="break-countdown" class="countdown hidden" role="timer" title="Time left in this break"></span>
+      <button class="btn" id="favorite-btn" aria-pressed="${isFavorite}" title="${isFavorite ? 'Remove from favorites' : 'Add to favorites'}">${isFavorite ? '★' : '☆'}</button>
       <button class="btn" id="reload-btn">🔄 Reload</button>
-      <button class="btn" id="external-btn">🌐 Open in Browser</button>
+      ${builtinGame ? '' : '<button class="btn" id="external-btn">🌐 Open in Browser</button>'}
     </div>
   </div>
   
   <div class="game-container">
     ${mainContent}
+
+    <div id="job-overlay" class="job-overlay hidden" role="alertdialog" aria-labelledby="job-title">
+      <div class="job-card">
+        <button class="job-dismiss" id="job-dismiss-btn" title="Keep playing" aria-label="Dismiss">✕</button>
+        <div class="job-icon" id="job-icon"></div>
+        <h2 id="job-title"></h2>
+        <p id="job-detail"></p>
+        <div class="job-actions">
+          <button class="btn-primary" id="job-return-btn">↩ Return to editor</button>
+          <button class="btn" id="job-keep-btn">Keep playing</button>
+        </div>
+      </div>
+    </div>
+
+    <div id="break-overlay" class="job-overlay hidden" role="alertdialog" aria-labelledby="break-title">
+      <div class="job-card">
+        <div class="job-icon">⏰</div>
+        <h2 id="break-title">Break's over</h2>
+        <p>Your game is paused. Time to get back to work?</p>
+        <div class="job-actions">
+          <button class="btn-primary" id="break-end-btn">↩ Back to work</button>
+          <button class="btn" id="break-extend-btn">5 more minutes</button>
+        </div>
+      </div>
+    </div>
   </div>
 
   <script nonce="${nonce}">
-    ${this.getScript(gameUrl)}
+    ${this.getScript(gameUrl, !builtinGame, renderOptions?.breakTimer ?? { state: 'idle' }, renderOptions?.suspended ?? false, renderOptions?.pendingJob)}
   </script>
 </body>
 </html>`;
   }
 
+  /**
+   * Generates an empty page for webviews hidden by the boss key
+   */
+  static generateHidden(webview: vscode.Webview): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}">
+  <title>Take Your Time</title>
+</head>
+<body></body>
+</html>`;
+  }
+
   private static generateCSP(webview: vscode.Webview, nonce: string): string {
     return [
       `default-src 'none'`,
       `script-src 'nonce-${nonce}'`,
       `style-src 'unsafe-inline' ${webview.cspSource}`,
       `img-src ${webview.cspSource} https: data:`,
-      `frame-src https: http:`,
+      `frame-src ${webview.cspSource} https: http:`,
       `font-src https: data:`,
       `connect-src https:`
     ].join('; ');
@@ -289,6 +394,107 @@ export class WebviewContentGenerator {
         animation: rotation 1s linear infinite;
       }
 
+      .job-overlay {
+        position: absolute;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.6);
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        z-index: 30;
+      }
+
+      .countdown {
+        font-size: 12px;
+        font-variant-numeric: tabular-nums;
+        padding: 4px 8px;
+        align-self: center;
+        opacity: 0.8;
+      }
+
+      .countdown.warning {
+        color: var(--vscode-editorWarning-foreground);
+        font-weight: 600;
+        opacity: 1;
+      }
+
+      .countdown.hidden {
+        display: none;
+      }
+
+      .suspended {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        align-items: center;
+        justify-content: center;
+        opacity: 0.7;
+      }
+
+      .suspended.hidden {
+        display: none;
+      }
+
+      #game-frame.paused {
+        pointer-events: none;
+        filter: blur(6px) grayscale(0.6);
+      }
+
+      .job-overlay.hidden {
+        display: none;
+      }
+
+      .job-card {
+        position: relative;
+        text-align: center;
+        padding: 32px 40px;
+        max-width: 480px;
+        background: var(--vscode-editorWidget-background);
+        color: var(--vscode-editorWidget-foreground);
+        border: 1px solid var(--border-color);
+        border-radius: 8px;
+        box-shadow: 0 8px 32px rgba(0, 0, 0, 0.5);
+      }
+
+      .job-card.success { border-top: 4px solid var(--vscode-testing-iconPassed, #73c991); }
+      .job-card.failure { border-top: 4px solid var(--vscode-testing-iconFailed, #f14c4c); }
+
+      .job-icon {
+        font-size: 40px;
+        margin-bottom: 12px;
+      }
+
+      .job-card h2 {
+        word-break: break-word;
+      }
+
+      .job-actions {
+        display: flex;
+        gap: 8px;
+        justify-content: center;
+        align-items: center;
+      }
+
+      .job-actions .btn {
+        margin-top: 24px;
+        padding: 12px 16px;
+      }
+
+      .job-dismiss {
+        position: absolute;
+        top: 8px;
+        right: 8px;
+        background: none;
+        border: none;
+        color: inherit;
+        cursor: pointer;
+        font-size: 14px;
+        opacity: 0.7;
+      }
+
       @keyframes rotation {
         0% { transform: rotate(0deg); }
         100% { transform: rotate(360deg); }
@@ -296,18 +502,83 @@ export class WebviewContentGenerator {
     `;
   }
 
-  private static getScript(gameUrl: string): string {
+  private static getScript(gameUrl: string, requiresNetwork: boolean, breakTimer: BreakTimerStatus, suspended: boolean, pendingJob?: JobFinishedMessage): string {
     return `
       const vscode = acquireVsCodeApi();
       const gameFrame = document.getElementById('game-frame');
       let loader = document.getElementById('loading-overlay');
+
+      const currentGameUrl = ${this.toScriptLiteral(gameUrl)};
+
+      // Messages follow WebviewProtocol; the extension rejects anything else
+      const PROTOCOL_VERSION = ${WebviewProtocol.VERSION};
+      const REQUEST_TIMEOUT_MS = 10000;
+      const pendingRequests = new Map();
+      let requestCounter = 0;
+
+      function send(command, payload) {
+        vscode.postMessage(Object.assign({}, payload, { version: PROTOCOL_VERSION, command: command }));
+      }
+
+      // Sends a message and resolves once the extension has handled it
+      function request(command, payload) {
+        requestCounter++;
+        const id = 'req-' + requestCounter;
+        return new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            pendingRequests.delete(id);
+            reject(new Error(command + ' timed out'));
+          }, REQUEST_TIMEOUT_MS);
+          pendingRequests.set(id, { resolve, reject, timer });
+          vscode.postMessage(Object.assign({}, payload, { version: PROTOCOL_VERSION, command: command, id: id }));
+        });
+      }
+
+      function settleRequest(response) {
+        const pending = pendingRequests.get(response.requestId);
+        if (!pending) return;
+        pendingRequests.delete(response.requestId);
+        clearTimeout(pending.timer);
+        if (response.ok) {
+          pending.resolve();
+        } else {
+          pending.reject(new Error(response.error ? response.error.message : 'Request failed'));
+        }
+      }
+
+      function optionalString(value) {
+        return typeof value === 'string' ? value : undefined;
+      }
+
+      // Forward script errors to the extension's error log
+      window.addEventListener('error', (event) => {
+        send('webviewError', {
+          message: String(event.message),
+          source: optionalString(event.filename),
+          line: typeof event.lineno === 'number' ? event.lineno : undefined,
+          column: typeof event.colno === 'number' ? event.colno : undefined,
+          stack: optionalString(event.error && event.error.stack)
+        });
+      });
+      window.addEventListener('unhandledrejection', (event) => {
+        const reason = event.reason;
+        send('webviewError', {
+          message: reason && reason.message ? String(reason.message) : String(reason),
+          stack: optionalString(reason && reason.stack)
+        });
+      });
+
+      // Remember the current game so the panel can be restored after a window reload
+      vscode.setState({ gameUrl: currentGameUrl, timestamp: Date.now() });
       
       // Add event listeners
       document.addEventListener('DOMContentLoaded', () => {
         const selector = document.getElementById('game-selector');
         const reloadBtn = document.getElementById('reload-btn');
         const externalBtn = document.getElementById('external-btn');
-        const primaryBtn = document.querySelector('.btn-primary');
+        const primaryBtn = document.querySelector('.blocked-content .btn-primary[data-url]');
+        const retryBtn = document.getElementById('retry-btn');
+        const favoriteBtn = document.getElementById('favorite-btn');
         
         if (selector) {
           selector.addEventListener('change', (e) => {
@@ -318,13 +589,25 @@ export class WebviewContentGenerator {
         if (reloadBtn) {
           reloadBtn.addEventListener('click', reloadGame);
         }
+
+        if (favoriteBtn) {
+          favoriteBtn.addEventListener('click', () => {
+            request('toggleFavorite', { url: currentGameUrl }).catch((error) => {
+              console.warn('TYT: Could not update favorites:', error.message);
+            });
+          });
+        }
         
         if (externalBtn) {
           externalBtn.addEventListener('click', () => {
-            openExternal('${this.escapeHtml(gameUrl)}');
+            openExternal(currentGameUrl);
           });
         }
         
+        if (retryBtn) {
+          retryBtn.addEventListener('click', () => switchGame(currentGameUrl));
+        }
+
         if (primaryBtn) {
           primaryBtn.addEventListener('click', () => {
             const url = primaryBtn.getAttribute('data-url');
@@ -333,6 +616,42 @@ export class WebviewContentGenerator {
         }
       });
       
+      // Report games that never finish loading so the extension can fall back
+      const LOAD_TIMEOUT_MS = 20000;
+      let gameLoaded = false;
+      let loadFailureReported = false;
+      let gameSuspended = false;
+      let loadTimer = null;
+
+      // A suspended game isn't loading, so it can't fail to load
+      function reportLoadFailure(reason) {
+        if (gameLoaded || gameSuspended || loadFailureReported) return;
+        loadFailureReported = true;
+        send('loadFailed', { url: currentGameUrl, reason: reason });
+      }
+
+      function startLoadTimer() {
+        clearTimeout(loadTimer);
+        gameLoaded = false;
+        loadTimer = setTimeout(() => reportLoadFailure('timeout'), LOAD_TIMEOUT_MS);
+      }
+
+      if (gameFrame) {
+        startLoadTimer();
+        gameFrame.addEventListener('load', () => {
+          gameLoaded = true;
+          clearTimeout(loadTimer);
+        });
+        gameFrame.addEventListener('error', () => reportLoadFailure('error'));
+
+        if (${requiresNetwork}) {
+          if (!navigator.onLine) {
+            reportLoadFailure('offline');
+          }
+          window.addEventListener('offline', () => reportLoadFailure('offline'));
+        }
+      }
+
       // Handle iframe load
       if (gameFrame) {
           gameFrame.onload = () => {
@@ -362,19 +681,13 @@ export class WebviewContentGenerator {
         } else {
           // If we are in blocked view, reload just re-requests the same URL via extension
           // which effectively refreshes the view
-          vscode.postMessage({
-             command: 'switchGame',
-             // we need the current url, but we don't store it in a var easily here
-             // assume the user just clicked reload on the current view
-             url: '${this.escapeHtml(gameUrl)}' 
-          });
+          switchGame(currentGameUrl);
         }
       }
 
       function switchGame(url) {
-        vscode.postMessage({
-           command: 'switchGame',
-           url: url
+        request('switchGame', { url: url }).catch((error) => {
+          console.warn('TYT: Could not switch game:', error.message);
         });
       }
       
@@ -414,13 +727,164 @@ export class WebviewContentGenerator {
            }
       }
 
+      // Handle messages from the extension
+      window.addEventListener('message', (event) => {
+        const message = event.data;
+        if (!message || typeof message.command !== 'string') return;
+        if (message.version !== PROTOCOL_VERSION) {
+          console.warn('TYT: Ignoring message with protocol version', message.version);
+          return;
+        }
+        if (message.command === 'jobFinished' && typeof message.jobId === 'string') {
+          showJobFinished(message);
+        } else if (message.command === 'updatePresets' && Array.isArray(message.presets)) {
+          updatePresets(message.presets);
+        } else if (message.command === 'hideGame') {
+          hideGame();
+        } else if (message.command === 'suspendGame') {
+          suspendGame();
+        } else if (message.command === 'resumeGame') {
+          resumeGame();
+        } else if (message.command === 'breakTimer' && typeof message.state === 'string') {
+          applyBreakTimer(message);
+        } else if (message.command === 'response' && typeof message.requestId === 'string') {
+          settleRequest(message);
+        } else {
+          console.warn('TYT: Ignoring unknown message', message.command);
+        }
+      });
+
+      // Boss key: drop the game (and its sound) before the extension replaces the page
+      function hideGame() {
+        if (gameFrame) gameFrame.remove();
+        document.body.innerHTML = '';
+      }
+
+      // Detaching the iframe stops the game's sound and CPU use; putting it back reloads it
+      const placeholder = document.getElementById('suspended-placeholder');
+      function suspendGame() {
+        if (!gameFrame || !placeholder || !gameFrame.isConnected) return;
+        gameSuspended = true;
+        clearTimeout(loadTimer);
+        gameFrame.replaceWith(placeholder);
+        placeholder.classList.remove('hidden');
+        if (loader) loader.classList.add('hidden');
+      }
+
+      function resumeGame() {
+        if (!gameFrame || !placeholder || gameFrame.isConnected) return;
+        placeholder.classList.add('hidden');
+        gameSuspended = false;
+        placeholder.replaceWith(gameFrame);
+        showLoader();
+        startLoadTimer();
+      }
+
+      // Rebuilds the game list without touching the running game
+      function updatePresets(presets) {
+        const selector = document.getElementById('game-selector');
+        if (!selector || !Array.isArray(presets)) return;
+
+        selector.innerHTML = '';
+        presets.forEach((preset) => {
+          const option = document.createElement('option');
+          option.value = String(preset.url);
+          option.textContent = (preset.favorite ? '★ ' : '') + String(preset.name);
+          option.selected = preset.url === currentGameUrl;
+          selector.appendChild(option);
+        });
+
+        const current = presets.find((preset) => preset.url === currentGameUrl);
+        const favoriteBtn = document.getElementById('favorite-btn');
+        if (favoriteBtn && current) {
+          favoriteBtn.textContent = current.favorite ? '★' : '☆';
+          favoriteBtn.title = current.favorite ? 'Remove from favorites' : 'Add to favorites';
+          favoriteBtn.setAttribute('aria-pressed', String(Boolean(current.favorite)));
+        }
+      }
+
+      let activeJobId = null;
+      function showJobFinished(job) {
+        const overlay = document.getElementById('job-overlay');
+        if (!overlay) return;
+
+        const icons = { success: '✅', failure: '❌', unknown: '🏁' };
+        const card = overlay.querySelector('.job-card');
+        card.classList.remove('success', 'failure');
+        if (job.result === 'success' || job.result === 'failure') {
+          card.classList.add(job.result);
+        }
+
+        document.getElementById('job-icon').textContent = icons[job.result] || icons.unknown;
+        document.getElementById('job-title').textContent = String(job.name);
+        document.getElementById('job-detail').textContent = String(job.detail);
+
+        activeJobId = job.jobId;
+        overlay.classList.remove('hidden');
+        document.getElementById('job-return-btn').focus();
+      }
+
+      function hideJobFinished() {
+        const overlay = document.getElementById('job-overlay');
+        if (overlay) overlay.classList.add('hidden');
+        activeJobId = null;
+      }
+
+      document.getElementById('job-dismiss-btn').addEventListener('click', hideJobFinished);
+      document.getElementById('job-keep-btn').addEventListener('click', hideJobFinished);
+      document.getElementById('job-return-btn').addEventListener('click', () => {
+        send('returnToEditor', { jobId: activeJobId });
+        hideJobFinished();
+      });
+      document.addEventListener('keydown', (e) => {
+        if (e.key === 'Escape') hideJobFinished();
+      });
+
+      // The break countdown is owned by the extension; this only displays it
+      let breakDeadline = null;
+      function applyBreakTimer(status) {
+        const countdown = document.getElementById('break-countdown');
+        const overlay = document.getElementById('break-overlay');
+        const expired = status.state === 'expired';
+
+        breakDeadline = typeof status.remainingMs === 'number' ? Date.now() + status.remainingMs : null;
+        countdown.classList.toggle('hidden', breakDeadline === null);
+        countdown.classList.toggle('warning', status.state === 'warning');
+        updateBreakCountdown();
+
+        overlay.classList.toggle('hidden', !expired);
+        if (gameFrame) {
+          gameFrame.classList.toggle('paused', expired);
+          gameFrame.toggleAttribute('inert', expired);
+        }
+        if (expired) {
+          hideJobFinished();
+          document.getElementById('break-end-btn').focus();
+        }
+      }
+
+      function updateBreakCountdown() {
+        if (breakDeadline === null) return;
+        const seconds = Math.max(0, Math.ceil((breakDeadline - Date.now()) / 1000));
+        const countdown = document.getElementById('break-countdown');
+        countdown.textContent = '⏱ ' + Math.floor(seconds / 60) + ':' + String(seconds % 60).padStart(2, '0');
+      }
+
+      setInterval(updateBreakCountdown, 1000);
+      document.getElementById('break-extend-btn').addEventListener('click', () => send('extendBreak', {}));
+      document.getElementById('break-end-btn').addEventListener('click', () => send('endBreak', {}));
+      applyBreakTimer(${this.toScriptLiteral(breakTimer)});
+      if (${suspended}) suspendGame();
+
+      const pendingJob = ${this.toScriptLiteral(pendingJob ?? null)};
+      if (pendingJob) showJobFinished(pendingJob);
+
       function openExternal(url) {
         const targetUrl = url || (gameFrame ? gameFrame.src : null);
         if (targetUrl) {
-            vscode.postMessage({
-            command: 'openExternal',
-            url: targetUrl
-            });
+          request('openExternal', { url: targetUrl }).catch((error) => {
+            console.warn('TYT: Could not open in browser:', error.message);
+          });
         }
       }
       
@@ -437,6 +901,13 @@ export class WebviewContentGenerator {
     return text;
   }
 
+  /**
+   * Serializes a value as a JavaScript literal that is safe inside a script tag
+   */
+  private static toScriptLiteral(value: unknown): string {
+    return JSON.stringify(value).replace(/</g, '\\u003c');
+  }
+
   private static escapeHtml(unsafe: string): string {
     return unsafe
       .replace(/&/g, "&amp;")
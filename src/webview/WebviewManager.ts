@@ -2,24 +2,105 @@ import * as vscode from 'vscode';
 import { ExtensionConfig } from '../config/ExtensionConfig';
 import { WebviewPanelFactory } from './WebviewPanelFactory';
 import { WebviewContentGenerator } from './WebviewContentGenerator';
+import { JobSummary, WebviewState } from '../types';
+import { BuiltinGames } from '../games/BuiltinGames';
+import { EmbedProbe } from '../diagnostics/EmbedProbe';
+import { PreviewImages } from './PreviewImages';
+import { ErrorLog } from '../diagnostics/ErrorLog';
+import { GameLibrary } from '../games/GameLibrary';
+import { BreakTimer, BreakTimerStatus } from '../breaks/BreakTimer';
+import { PlayDenial, PlayPolicy } from '../breaks/PlayPolicy';
+import { ExtensionError } from '../errors/ExtensionError';
+import { ProtocolError } from '../errors/ProtocolError';
+import { ConfigurationError } from '../errors/ConfigurationError';
+import { ExtensionMessage, JobFinishedMessage, OutgoingMessage, WebviewMessage, WebviewProtocol } from './WebviewProtocol';
+
+type LoadFailureReason = 'timeout' | 'offline' | 'error' | 'refused';
+
+const LOAD_FAILURE_DESCRIPTIONS: Record<LoadFailureReason, string> = {
+    timeout: 'did not finish loading in time',
+    offline: 'cannot be loaded while offline',
+    error: 'failed to load',
+    refused: 'does not allow being embedded in VS Code'
+};
+
+interface ContentUpdater {
+    update: (url: string) => void;
+    getCurrentUrl: () => string;
+    /** Whether the webview shows the "not play time" page instead of a game */
+    isBlocked: () => boolean;
+    /** Replaces the game with an empty page until the next update */
+    hide: () => void;
+    /** Starts or ends the play session after the game was shown, hidden, paused or resumed */
+    syncSession: () => void;
+}
+
+/**
+ * Whether a webview's game is shown, and whether it has been swapped for the paused placeholder
+ */
+interface GameSuspension {
+    visible: boolean;
+    suspended: boolean;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A panel closed by the boss key, to reopen on resume
+ */
+interface HiddenGame {
+    url: string;
+    viewColumn: vscode.ViewColumn | undefined;
+}
+
+/**
+ * What the boss key put away, to bring back exactly as it was
+ */
+interface HiddenState {
+    games: HiddenGame[];
+    /** The "back to work" overlay that was waiting for an answer */
+    pendingJob: JobFinishedMessage | undefined;
+    breakTimer: BreakTimerStatus;
+}
 
 /**
  * Manages the lifecycle of TYT webview panels
  */
-export class TYTWebviewManager {
+export class TYTWebviewManager implements vscode.Disposable {
     private panels: Map<string, vscode.WebviewPanel> = new Map();
+    private view: vscode.WebviewView | undefined;
     private panelCounter = 0;
+    private jobCounter = 0;
+    private readonly jobActions: Map<string, () => void> = new Map();
+    private readonly contentUpdaters: Map<vscode.Webview, ContentUpdater> = new Map();
+    private hidden: HiddenState | undefined;
+    private lastJob: JobFinishedMessage | undefined;
+    private restoringJob: JobFinishedMessage | undefined;
+    private readonly suspensions: Map<vscode.Webview, GameSuspension> = new Map();
+    private readonly previewImageSrcs: Map<string, string> = new Map();
+    private windowFocused = vscode.window.state.focused;
+    private readonly onDidChangePanelsEmitter = new vscode.EventEmitter<void>();
+
+    /**
+     * Fires when a game panel is opened or closed
+     */
+    public readonly onDidChangePanels = this.onDidChangePanelsEmitter.event;
 
     constructor(
         private readonly context: vscode.ExtensionContext,
-        private readonly config: ExtensionConfig
+        private readonly config: ExtensionConfig,
+        private readonly errorLog: ErrorLog,
+        private readonly gameLibrary: GameLibrary,
+        private readonly breakTimer: BreakTimer,
+        private readonly playPolicy: PlayPolicy
     ) { }
 
     /**
      * Creates and displays a new game webview panel
+     * @param gameUrl The game to show instead of the configured default
+     * @param viewColumn Where to open the panel
      * @returns The created webview panel
      */
-    public createGamePanel(): vscode.WebviewPanel {
+    public createGamePanel(gameUrl?: string, viewColumn?: vscode.ViewColumn): vscode.WebviewPanel {
         this.panelCounter++;
         const panelId = `tyt-panel-${this.panelCounter}`;
         const title = this.panelCounter === 1
@@ -30,66 +111,609 @@ export class TYTWebviewManager {
             this.context,
             panelId,
             title,
-            this.config
+            this.config,
+            viewColumn
         );
 
-        const resources = {
-            smbBg: vscode.Uri.joinPath(this.context.extensionUri, 'media', 'smb_preview.png'),
-            crazyGamesBg: vscode.Uri.joinPath(this.context.extensionUri, 'media', 'crazyGames.png')
+        this.attachPanel(panelId, panel, gameUrl ?? this.getStartGameUrl());
+        return panel;
+    }
+
+    /**
+     * Opens a game as `takeYourTime.panelMode` and `takeYourTime.panelColumn` ask:
+     * in single mode the existing panel is reused and revealed instead of opening another one
+     * @param gameUrl The game to show instead of the configured default
+     * @param preserveFocus Keeps the focus where it is when an existing panel is revealed
+     * @returns The panel showing the game
+     */
+    public openGamePanel(gameUrl?: string, preserveFocus = false): vscode.WebviewPanel {
+        // Opening a game ends the boss key, otherwise the new panel would escape the play limits and the next hide
+        this.restoreAll();
+
+        const existing = this.config.getPanelMode() === 'single' ? this.getActivePanels()[0] : undefined;
+        if (existing) {
+            if (gameUrl) {
+                this.switchGame(existing, gameUrl);
+            }
+            existing.reveal(existing.viewColumn, preserveFocus);
+            return existing;
+        }
+
+        const column = this.config.getPanelColumn();
+        const panel = this.createGamePanel(
+            gameUrl,
+            column === 'beside' ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active
+        );
+        if (column === 'newWindow') {
+            // The new panel is the active editor, so this moves it out of the main window
+            vscode.commands.executeCommand('workbench.action.moveEditorToNewWindow').then(undefined, error => {
+                this.errorLog.record(error, { panelColumn: column });
+            });
+        }
+        return panel;
+    }
+
+    /**
+     * Takes over a panel revived by VS Code after a window reload
+     * @param state The state last saved by the webview, if any
+     */
+    public restoreGamePanel(panel: vscode.WebviewPanel, state: WebviewState | undefined): void {
+        this.panelCounter++;
+        const panelId = `tyt-panel-${this.panelCounter}`;
+
+        WebviewPanelFactory.configure(this.context, panel);
+
+        const savedUrl = state?.gameUrl;
+        const gameUrl = savedUrl && this.isValidGameUrl(savedUrl)
+            ? savedUrl
+            : this.getStartGameUrl();
+
+        this.attachPanel(panelId, panel, gameUrl);
+    }
+
+    /**
+     * Shows the game in the sidebar arcade view
+     * @param state The state last saved by the view's webview, if any
+     */
+    public attachView(view: vscode.WebviewView, state: WebviewState | undefined): void {
+        const savedUrl = state?.gameUrl;
+        const gameUrl = savedUrl && this.isValidGameUrl(savedUrl)
+            ? savedUrl
+            : this.getStartGameUrl();
+
+        // A view can't be closed, leaving the game simply hands focus back
+        const messageHandler = this.attachWebview(view.webview, gameUrl, view.visible, () => undefined);
+
+        // Coming back to the view after a break has ended starts the next one
+        const visibilityHandler = view.onDidChangeVisibility(() => {
+            this.setWebviewVisible(view.webview, view.visible);
+            if (view.visible && !this.hidden && !this.getPlayDenial()) {
+                this.breakTimer.start();
+            }
+        });
+
+        view.onDidDispose(() => {
+            messageHandler.dispose();
+            visibilityHandler.dispose();
+            this.contentUpdaters.delete(view.webview);
+            if (this.view === view) {
+                this.view = undefined;
+            }
+        });
+
+        this.view = view;
+    }
+
+    /**
+     * Gets the game a new panel opens with: the last one played, or the configured default
+     */
+    private getStartGameUrl(): string {
+        const lastPlayed = this.config.isResumeLastGameEnabled() ? this.gameLibrary.getRecent()[0] : undefined;
+        return lastPlayed && this.isValidGameUrl(lastPlayed) ? lastPlayed : this.config.getGameUrl();
+    }
+
+    /**
+     * Renders the game into a panel and wires up message handling and disposal
+     */
+    private attachPanel(panelId: string, panel: vscode.WebviewPanel, initialUrl: string): void {
+        const messageHandler = this.attachWebview(panel.webview, initialUrl, panel.visible, () => panel.dispose());
+        const viewStateHandler = panel.onDidChangeViewState(event => {
+            this.setWebviewVisible(panel.webview, event.webviewPanel.visible);
+        });
+
+        // Handle panel disposal
+        panel.onDidDispose(() => {
+            messageHandler.dispose();
+            viewStateHandler.dispose();
+            this.contentUpdaters.delete(panel.webview);
+            this.panels.delete(panelId);
+            // The boss key keeps the job and break for when the games come back
+            if (this.panels.size === 0 && !this.view && !this.hidden) {
+                this.jobActions.clear();
+                this.breakTimer.stop();
+            }
+            this.onDidChangePanelsEmitter.fire();
+        });
+
+        this.panels.set(panelId, panel);
+        this.onDidChangePanelsEmitter.fire();
+    }
+
+    /**
+     * Renders the game into a webview and handles its messages
+     * @param visible Whether the host is shown right now, e.g. false for a restored background tab
+     * @param close Closes whatever hosts the webview
+     * @returns The message subscription and play session, to dispose with the host
+     */
+    private attachWebview(webview: vscode.Webview, initialUrl: string, visible: boolean, close: () => void): vscode.Disposable {
+        let currentUrl = initialUrl;
+        let session: { url: string; end: () => void } | undefined;
+        const endSession = (): void => {
+            session?.end();
+            session = undefined;
         };
 
-        const updateContent = (url: string): void => {
-            panel.webview.html = WebviewContentGenerator.generate(
-                panel.webview,
+        let blocked = false;
+        let hidden = false;
+
+        // Only time the game while it can be seen and is running, so background tabs don't count as play
+        const syncSession = (): void => {
+            const suspension = this.suspensions.get(webview);
+            const playing = !blocked && !hidden && suspension !== undefined && suspension.visible && !suspension.suspended;
+            if (!playing) {
+                endSession();
+            } else if (session?.url !== currentUrl) {
+                // Retrying or reloading the same game continues its session
+                endSession();
+                session = { url: currentUrl, end: this.gameLibrary.startSession(currentUrl) };
+            }
+        };
+
+        const updateContent = (url: string, unavailableReason?: string): void => {
+            const playDenial = this.getPlayDenial();
+            blocked = playDenial !== undefined;
+            hidden = false;
+            currentUrl = url;
+
+            syncSession();
+            if (!playDenial) {
+                this.breakTimer.start();
+            }
+
+            const presets = this.gameLibrary.sort(this.config.getGamePresets());
+            const previewImage = presets.find(preset => preset.url === url)?.previewImage;
+
+            webview.html = WebviewContentGenerator.generate(
+                webview,
                 url,
-                this.config.getGamePresets(),
-                resources
+                presets,
+                {
+                    extensionUri: this.context.extensionUri,
+                    previewImageSrc: previewImage ? this.previewImageSrcs.get(previewImage) : undefined
+                },
+                {
+                    unavailableReason,
+                    playDenial,
+                    favoriteUrls: this.gameLibrary.getFavorites(),
+                    breakTimer: this.breakTimer.getStatus(),
+                    suspended: this.suspensions.get(webview)?.suspended,
+                    pendingJob: this.restoringJob
+                }
             );
+
+            // Preview images are read from disk, so the card is drawn again once its image is found
+            if (previewImage && !this.previewImageSrcs.has(previewImage) && !unavailableReason && !playDenial && !WebviewContentGenerator.rendersInFrame(url, presets)) {
+                PreviewImages.resolve(webview, this.context.extensionUri, previewImage, this.errorLog).then(src => {
+                    if (!src) {
+                        return;
+                    }
+                    this.previewImageSrcs.set(previewImage, src);
+                    if (currentUrl === url && this.contentUpdaters.has(webview) && !this.hidden) {
+                        updateContent(url);
+                    }
+                });
+            }
+
+            // Sites that refuse framing load "successfully" as a blank page, so ask the site itself
+            if (!unavailableReason && !playDenial && !BuiltinGames.isBuiltinUrl(url) && WebviewContentGenerator.rendersInFrame(url, presets)) {
+                EmbedProbe.checkFraming(url, this.errorLog).then(verdict => {
+                    if (verdict === 'refused' && currentUrl === url && this.contentUpdaters.has(webview) && !this.hidden) {
+                        this.handleLoadFailure(url, 'refused', updateContent);
+                    }
+                });
+            }
         };
 
         // Initial content
-        updateContent(this.config.getGameUrl());
+        this.suspensions.set(webview, { visible, suspended: false });
+        updateContent(initialUrl);
+        this.contentUpdaters.set(webview, {
+            update: updateContent,
+            getCurrentUrl: () => currentUrl,
+            isBlocked: () => blocked,
+            hide: () => {
+                hidden = true;
+                endSession();
+                webview.html = WebviewContentGenerator.generateHidden(webview);
+            },
+            syncSession
+        });
 
         // Handle messages from the webview
-        panel.webview.onDidReceiveMessage(
-            message => {
-                if (message.command === 'openExternal') {
-                    // Validate URL before opening
-                    try {
-                        const uri = vscode.Uri.parse(message.url, true);
-                        if (uri.scheme === 'http' || uri.scheme === 'https') {
-                            vscode.env.openExternal(uri);
-                        } else {
-                            console.error('TYT: Invalid URL scheme:', uri.scheme);
-                        }
-                    } catch (error) {
-                        console.error('TYT: Failed to parse URL:', error);
-                    }
-                } else if (message.command === 'switchGame') {
-                    // Validate URL format
-                    try {
-                        const uri = vscode.Uri.parse(message.url, true);
-                        if (uri.scheme === 'http' || uri.scheme === 'https') {
-                            updateContent(message.url);
-                        } else {
-                            console.error('TYT: Invalid game URL scheme:', uri.scheme);
-                        }
-                    } catch (error) {
-                        console.error('TYT: Failed to parse game URL:', error);
-                    }
+        const messageSubscription = webview.onDidReceiveMessage(async raw => {
+            const requestId = WebviewProtocol.getRequestId(raw);
+            try {
+                const message = WebviewProtocol.parseWebviewMessage(raw);
+                await this.handleMessage(message, {
+                    getCurrentUrl: () => currentUrl,
+                    updateContent,
+                    close
+                });
+                this.respond(webview, requestId);
+            } catch (error) {
+                this.errorLog.record(error, { gameUrl: currentUrl });
+                this.respond(webview, requestId, error);
+            }
+        });
+
+        return vscode.Disposable.from(messageSubscription, {
+            dispose: () => {
+                endSession();
+                clearTimeout(this.suspensions.get(webview)?.timer);
+                this.suspensions.delete(webview);
+            }
+        });
+    }
+
+    /**
+     * Acts on a validated webview message
+     * @throws ProtocolError when the payload is well-formed but can't be acted on
+     */
+    private async handleMessage(
+        message: WebviewMessage,
+        host: {
+            getCurrentUrl: () => string;
+            updateContent: (url: string, unavailableReason?: string) => void;
+            close: () => void;
+        }
+    ): Promise<void> {
+        switch (message.command) {
+            case 'openExternal': {
+                // Validate URL before opening
+                const uri = vscode.Uri.parse(message.url, true);
+                if (uri.scheme !== 'http' && uri.scheme !== 'https') {
+                    throw new ProtocolError(`Invalid URL scheme: ${uri.scheme}`, { url: message.url });
                 }
-            },
-            undefined,
-            this.context.subscriptions
-        );
+                vscode.env.openExternal(uri);
+                break;
+            }
+            case 'returnToEditor': {
+                const returnToWork = message.jobId ? this.jobActions.get(message.jobId) : undefined;
+                if (message.jobId) {
+                    this.jobActions.delete(message.jobId);
+                }
+                host.close();
+                if (returnToWork) {
+                    returnToWork();
+                } else {
+                    vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup');
+                }
+                break;
+            }
+            case 'switchGame':
+                if (!this.isValidGameUrl(message.url)) {
+                    throw new ProtocolError('Invalid game URL', { url: message.url });
+                }
+                host.updateContent(message.url);
+                break;
+            case 'extendBreak':
+                this.breakTimer.extend();
+                break;
+            case 'endBreak':
+                this.breakTimer.stop();
+                host.close();
+                vscode.commands.executeCommand('workbench.action.focusActiveEditorGroup');
+                break;
+            case 'toggleFavorite':
+                if (!this.isValidGameUrl(message.url)) {
+                    throw new ProtocolError('Invalid game URL', { url: message.url });
+                }
+                // Every webview picks up the change through refreshPresets
+                await this.gameLibrary.toggleFavorite(message.url);
+                break;
+            case 'webviewError':
+                this.errorLog.recordWebviewError(
+                    message.message,
+                    {
+                        gameUrl: host.getCurrentUrl(),
+                        source: message.source,
+                        line: message.line,
+                        column: message.column
+                    },
+                    message.stack
+                );
+                break;
+            case 'loadFailed':
+                // Ignore reports from a page that has since been replaced
+                if (message.url === host.getCurrentUrl()) {
+                    this.handleLoadFailure(message.url, message.reason, host.updateContent);
+                }
+                break;
+        }
+    }
 
-        // Handle panel disposal
-        panel.onDidDispose(() => {
-            this.panels.delete(panelId);
+    /**
+     * Answers a webview request, if the webview asked for an answer
+     */
+    private respond(webview: vscode.Webview, requestId: string | undefined, error?: unknown): void {
+        if (requestId === undefined) {
+            return;
+        }
+
+        const extensionError = error instanceof ExtensionError ? error : undefined;
+        this.postMessage(webview, {
+            command: 'response',
+            requestId,
+            ok: error === undefined,
+            error: error === undefined ? undefined : {
+                code: extensionError?.code ?? 'EXTENSION_ERROR',
+                message: error instanceof Error ? error.message : String(error)
+            }
         });
+    }
 
-        this.panels.set(panelId, panel);
-        return panel;
+    /**
+     * Validates a message against the protocol and posts it to one webview
+     */
+    private postMessage(webview: vscode.Webview, message: OutgoingMessage): void {
+        let validated: ExtensionMessage;
+        try {
+            validated = WebviewProtocol.createMessage(message);
+        } catch (error) {
+            this.errorLog.record(error);
+            return;
+        }
+
+        webview.postMessage(validated).then(undefined, error => {
+            this.errorLog.record(error, { postMessage: message.command });
+        });
+    }
+
+    /**
+     * Switches to the fallback game, or shows a "site unavailable" page when there is none
+     */
+    private handleLoadFailure(
+        failedUrl: string,
+        reason: LoadFailureReason,
+        updateContent: (url: string, unavailableReason?: string) => void
+    ): void {
+        const description = LOAD_FAILURE_DESCRIPTIONS[reason];
+        const fallbackUrl = this.config.getFallbackUrl();
+
+        if (fallbackUrl && fallbackUrl !== failedUrl) {
+            updateContent(fallbackUrl);
+            vscode.window.showWarningMessage(
+                `Take Your Time: ${failedUrl} ${description}. Switched to the fallback game.`
+            );
+            return;
+        }
+
+        updateContent(failedUrl, description);
+        vscode.window.showWarningMessage(`Take Your Time: ${failedUrl} ${description}.`);
+    }
+
+    /**
+     * Checks that a game URL is a known built-in game or an http(s) URL
+     */
+    private isValidGameUrl(url: unknown): url is string {
+        if (typeof url !== 'string') {
+            this.errorLog.record(new ConfigurationError('Invalid game URL', { url }));
+            return false;
+        }
+
+        if (BuiltinGames.get(url)) {
+            return true;
+        }
+
+        try {
+            const uri = vscode.Uri.parse(url, true);
+            if (uri.scheme === 'http' || uri.scheme === 'https') {
+                return true;
+            }
+            this.errorLog.record(new ConfigurationError(`Unsupported game URL scheme "${uri.scheme}"`, { url }));
+        } catch (error) {
+            this.errorLog.record(new ConfigurationError('Failed to parse game URL', { url, error }));
+        }
+        return false;
+    }
+
+    /**
+     * Switches the game shown in a panel
+     * @returns Whether the panel is managed here and the URL was valid
+     */
+    public switchGame(panel: vscode.WebviewPanel, url: string): boolean {
+        const contentUpdater = this.contentUpdaters.get(panel.webview);
+        if (!contentUpdater || !this.isValidGameUrl(url)) {
+            return false;
+        }
+        contentUpdater.update(url);
+        return true;
+    }
+
+    /**
+     * Checks the daily quota and allowed hours
+     * @returns Why games can't be played now, or undefined when they can
+     */
+    public getPlayDenial(): PlayDenial | undefined {
+        try {
+            return this.playPolicy.check();
+        } catch (error) {
+            // Malformed schedules are reported with the other settings problems, don't lock the user out
+            this.errorLog.record(error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Swaps games for the "not play time" page when the quota or schedule says so, and back again
+     */
+    public enforcePlayPolicy(): void {
+        const playDenial = this.getPlayDenial();
+        if (playDenial) {
+            this.breakTimer.stop();
+        }
+
+        this.contentUpdaters.forEach(contentUpdater => {
+            if (!this.hidden && contentUpdater.isBlocked() !== (playDenial !== undefined)) {
+                contentUpdater.update(contentUpdater.getCurrentUrl());
+            }
+        });
+    }
+
+    /**
+     * Suspends or resumes games when the VS Code window loses or regains focus
+     */
+    public setWindowFocused(focused: boolean): void {
+        this.windowFocused = focused;
+        this.refreshSuspensions();
+    }
+
+    /**
+     * Re-applies the `whenHidden` setting to every webview
+     */
+    public refreshSuspensions(): void {
+        this.suspensions.forEach((_, webview) => this.updateSuspension(webview));
+    }
+
+    private setWebviewVisible(webview: vscode.Webview, visible: boolean): void {
+        const suspension = this.suspensions.get(webview);
+        if (suspension) {
+            suspension.visible = visible;
+            this.updateSuspension(webview);
+        }
+    }
+
+    /**
+     * Swaps a hidden game for the paused placeholder, right away or after the unload delay,
+     * and brings it back once the game is visible in a focused window again
+     */
+    private updateSuspension(webview: vscode.Webview): void {
+        const suspension = this.suspensions.get(webview);
+        if (!suspension) {
+            return;
+        }
+        const syncSession = (): void => this.contentUpdaters.get(webview)?.syncSession();
+
+        clearTimeout(suspension.timer);
+        suspension.timer = undefined;
+
+        const mode = this.config.getWhenHiddenMode();
+        const hidden = !suspension.visible || !this.windowFocused;
+        if (!hidden || mode === 'keepRunning') {
+            if (suspension.suspended) {
+                suspension.suspended = false;
+                this.postMessage(webview, { command: 'resumeGame' });
+            }
+            syncSession();
+            return;
+        }
+
+        if (suspension.suspended) {
+            syncSession();
+            return;
+        }
+
+        const suspend = (): void => {
+            suspension.timer = undefined;
+            suspension.suspended = true;
+            this.postMessage(webview, { command: 'suspendGame' });
+            syncSession();
+        };
+        if (mode === 'pause') {
+            suspend();
+        } else {
+            suspension.timer = setTimeout(suspend, this.config.getUnloadDelayMs());
+            syncSession();
+        }
+    }
+
+    /**
+     * Boss key: blanks every game, closes the panels and remembers what they showed
+     * @returns Whether there was anything to hide
+     */
+    public hideAll(): boolean {
+        const viewUpdater = this.view ? this.contentUpdaters.get(this.view.webview) : undefined;
+        const panels = this.getActivePanels();
+        if (panels.length === 0 && !viewUpdater) {
+            return false;
+        }
+
+        // Each webview drops its iframe right away, before the panels are torn down
+        this.postMessageToAll({ command: 'hideGame' });
+
+        const games = panels.map(panel => ({
+            url: this.contentUpdaters.get(panel.webview)?.getCurrentUrl() ?? this.getStartGameUrl(),
+            viewColumn: panel.viewColumn
+        }));
+        const pendingJob = this.lastJob && this.jobActions.has(this.lastJob.jobId) ? this.lastJob : undefined;
+        this.hidden = this.hidden
+            ? { ...this.hidden, games: [...this.hidden.games, ...games] }
+            : { games, pendingJob, breakTimer: this.breakTimer.pause() };
+
+        panels.forEach(panel => panel.dispose());
+        viewUpdater?.hide();
+
+        vscode.commands.executeCommand('setContext', 'takeYourTime.gamesHidden', true);
+        return true;
+    }
+
+    /**
+     * Whether the boss key has hidden the games
+     */
+    public areGamesHidden(): boolean {
+        return this.hidden !== undefined;
+    }
+
+    /**
+     * Brings back the games hidden by `hideAll`
+     * @returns Whether there was anything to restore
+     */
+    public restoreAll(): boolean {
+        const hidden = this.hidden;
+        if (!hidden) {
+            return false;
+        }
+
+        this.hidden = undefined;
+        vscode.commands.executeCommand('setContext', 'takeYourTime.gamesHidden', false);
+
+        // Resumed before rendering, so the games pick up the countdown instead of starting a new break
+        this.breakTimer.resume(hidden.breakTimer);
+        this.restoringJob = hidden.pendingJob && this.jobActions.has(hidden.pendingJob.jobId) ? hidden.pendingJob : undefined;
+        try {
+            const viewUpdater = this.view ? this.contentUpdaters.get(this.view.webview) : undefined;
+            viewUpdater?.update(viewUpdater.getCurrentUrl());
+            hidden.games.forEach(game => this.createGamePanel(game.url, game.viewColumn));
+        } finally {
+            this.restoringJob = undefined;
+        }
+        return true;
+    }
+
+    /**
+     * Reveals the game panel after the active one, wrapping around
+     * @returns Whether there was a panel to reveal
+     */
+    public focusNextPanel(): boolean {
+        const panels = this.getActivePanels();
+        if (panels.length === 0) {
+            return false;
+        }
+
+        const activeIndex = panels.findIndex(panel => panel.active);
+        const next = panels[(activeIndex + 1) % panels.length];
+        next.reveal(next.viewColumn);
+        return true;
     }
 
     /**
@@ -99,11 +723,80 @@ export class TYTWebviewManager {
         return Array.from(this.panels.values());
     }
 
+    /**
+     * Posts a message to the webview of every open panel
+     */
+    public postMessageToAll(message: OutgoingMessage): void {
+        const webviews = this.getActivePanels().map(panel => panel.webview);
+        if (this.view) {
+            webviews.push(this.view.webview);
+        }
+
+        webviews.forEach(webview => this.postMessage(webview, message));
+    }
+
+    /**
+     * Sends the current preset list, sorted by favorites and recency, to every open webview,
+     * keeping their games running
+     */
+    public refreshPresets(): void {
+        const favoriteUrls = this.gameLibrary.getFavorites();
+        this.postMessageToAll({
+            command: 'updatePresets',
+            presets: this.gameLibrary.sort(this.config.getGamePresets()).map(preset => ({
+                ...preset,
+                favorite: favoriteUrls.includes(preset.url)
+            }))
+        });
+    }
+
+    /**
+     * Sends the break countdown to every open webview
+     */
+    public refreshBreakTimer(): void {
+        this.postMessageToAll({ command: 'breakTimer', ...this.breakTimer.getStatus() });
+    }
+
+    /**
+     * Shows a "back to work" overlay in every open panel for a finished job
+     * @param job Summary of the finished job
+     * @param returnToWork Reveals the job's terminal or output when the user leaves the game
+     */
+    public notifyJobFinished(job: JobSummary, returnToWork: () => void): void {
+        if (this.panels.size === 0 && !this.view && !this.hidden) {
+            return;
+        }
+
+        this.jobCounter++;
+        const jobId = `tyt-job-${this.jobCounter}`;
+        this.jobActions.set(jobId, returnToWork);
+
+        this.lastJob = {
+            command: 'jobFinished',
+            jobId,
+            name: job.name,
+            result: job.result,
+            detail: job.detail
+        };
+        this.postMessageToAll(this.lastJob);
+        if (this.hidden) {
+            this.hidden.pendingJob = this.lastJob;
+        }
+    }
+
     /**
      * Disposes all panels
      */
     public disposeAll(): void {
         this.panels.forEach(panel => panel.dispose());
         this.panels.clear();
+        this.onDidChangePanelsEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.disposeAll();
+        this.suspensions.forEach(suspension => clearTimeout(suspension.timer));
+        this.suspensions.clear();
+        this.onDidChangePanelsEmitter.dispose();
     }
 }
@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import { ExtensionConfig } from '../config/ExtensionConfig';
 
 export class WebviewPanelFactory {
+    static readonly viewType = 'takeYourTimeGame';
+
     /**
      * Creates a webview panel with proper configuration
      */
@@ -9,29 +11,47 @@ export class WebviewPanelFactory {
         context: vscode.ExtensionContext,
         _panelId: string,
         title: string,
-        _config: ExtensionConfig
+        _config: ExtensionConfig,
+        viewColumn: vscode.ViewColumn = vscode.ViewColumn.Active
     ): vscode.WebviewPanel {
         const panel = vscode.window.createWebviewPanel(
-            'takeYourTimeGame',
+            this.viewType,
             title,
-            vscode.ViewColumn.One,
+            viewColumn,
             {
-                enableScripts: true,
-                retainContextWhenHidden: true,
-                localResourceRoots: [
-                    vscode.Uri.joinPath(context.extensionUri, 'media'),
-                    vscode.Uri.joinPath(context.extensionUri, 'resources')
-                ]
+                ...this.getWebviewOptions(context),
+                retainContextWhenHidden: true
             }
         );
 
+        this.setIcon(context, panel);
+        return panel;
+    }
+
+    /**
+     * Applies the same configuration to a panel revived by a serializer
+     */
+    static configure(context: vscode.ExtensionContext, panel: vscode.WebviewPanel): void {
+        panel.webview.options = this.getWebviewOptions(context);
+        this.setIcon(context, panel);
+    }
+
+    static getWebviewOptions(context: vscode.ExtensionContext): vscode.WebviewOptions {
+        return {
+            enableScripts: true,
+            localResourceRoots: [
+                vscode.Uri.joinPath(context.extensionUri, 'media'),
+                vscode.Uri.joinPath(context.extensionUri, 'resources')
+            ]
+        };
+    }
+
+    private static setIcon(context: vscode.ExtensionContext, panel: vscode.WebviewPanel): void {
         // Set icon if available
         const iconPath = this.getIconPath(context);
         if (iconPath) {
             panel.iconPath = iconPath;
         }
-
-        return panel;
     }
 
     private static getIconPath(
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import { ProtocolError } from '../errors/ProtocolError';
+
+/**
+ * Bump when a message changes shape; both sides drop messages with another version
+ */
+const PROTOCOL_VERSION = 1;
+
+const envelope = {
+    version: z.literal(PROTOCOL_VERSION),
+    // Set by the webview when it wants a `response`
+    id: z.string().max(64).optional()
+};
+
+/**
+ * Messages posted by the game webview to the extension
+ */
+const WebviewMessageSchema = z.discriminatedUnion('command', [
+    z.object({ ...envelope, command: z.literal('openExternal'), url: z.string() }),
+    z.object({ ...envelope, command: z.literal('switchGame'), url: z.string() }),
+    z.object({ ...envelope, command: z.literal('toggleFavorite'), url: z.string() }),
+    z.object({ ...envelope, command: z.literal('extendBreak') }),
+    z.object({ ...envelope, command: z.literal('endBreak') }),
+    z.object({ ...envelope, command: z.literal('returnToEditor'), jobId: z.string().nullable() }),
+    z.object({
+        ...envelope,
+        command: z.literal('loadFailed'),
+        url: z.string(),
+        reason: z.enum(['timeout', 'offline', 'error'])
+    }),
+    z.object({
+        ...envelope,
+        command: z.literal('webviewError'),
+        message: z.string(),
+        source: z.string().optional(),
+        line: z.number().optional(),
+        column: z.number().optional(),
+        stack: z.string().optional()
+    })
+]);
+
+/**
+ * Messages posted by the extension to the game webview
+ */
+const ExtensionMessageSchema = z.discriminatedUnion('command', [
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('jobFinished'),
+        jobId: z.string(),
+        name: z.string(),
+        result: z.enum(['success', 'failure', 'unknown']),
+        detail: z.string()
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('updatePresets'),
+        presets: z.array(z.object({ name: z.string(), url: z.string(), favorite: z.boolean().optional() }).passthrough())
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('hideGame')
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('suspendGame')
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('resumeGame')
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('breakTimer'),
+        state: z.enum(['idle', 'running', 'warning', 'expired']),
+        remainingMs: z.number().min(0).optional()
+    }),
+    z.object({
+        version: z.literal(PROTOCOL_VERSION),
+        command: z.literal('response'),
+        requestId: z.string(),
+        ok: z.boolean(),
+        error: z.object({ code: z.string(), message: z.string() }).optional()
+    })
+]);
+
+export type WebviewMessage = z.infer<typeof WebviewMessageSchema>;
+export type ExtensionMessage = z.infer<typeof ExtensionMessageSchema>;
+
+type WithoutVersion<T> = T extends unknown ? Omit<T, 'version'> : never;
+export type OutgoingMessage = WithoutVersion<ExtensionMessage>;
+export type JobFinishedMessage = Extract<OutgoingMessage, { command: 'jobFinished' }>;
+
+export class WebviewProtocol {
+    static readonly VERSION = PROTOCOL_VERSION;
+
+    /**
+     * Validates a message received from a webview
+     * @throws ProtocolError for unknown commands, other versions or malformed payloads
+     */
+    static parseWebviewMessage(raw: unknown): WebviewMessage {
+        const result = WebviewMessageSchema.safeParse(raw);
+        if (!result.success) {
+            const command = typeof raw === 'object' && raw !== null
+                ? (raw as Record<string, unknown>).command
+                : undefined;
+            throw new ProtocolError(`Rejected webview message "${String(command)}"`, {
+                issues: result.error.issues
+            });
+        }
+        return result.data;
+    }
+
+    /**
+     * Stamps and validates a message for a webview
+     * @throws ProtocolError if the message doesn't match the protocol
+     */
+    static createMessage(message: OutgoingMessage): ExtensionMessage {
+        const result = ExtensionMessageSchema.safeParse({ ...message, version: PROTOCOL_VERSION });
+        if (!result.success) {
+            throw new ProtocolError(`Invalid "${message.command}" message for webview`, {
+                issues: result.error.issues
+            });
+        }
+        return result.data;
+    }
+
+    /**
+     * Gets the correlation id of a raw message, if it has one, so even rejected requests get a response
+     */
+    static getRequestId(raw: unknown): string | undefined {
+        if (typeof raw !== 'object' || raw === null) {
+            return undefined;
+        }
+        const id = (raw as Record<string, unknown>).id;
+        return typeof id === 'string' ? id : undefined;
+    }
+}